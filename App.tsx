@@ -1,18 +1,38 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { generateVideo } from './services/geminiService';
-import type { ImageFile, AspectRatio } from './types';
-import { LOADING_MESSAGES, RANDOM_PROMPTS } from './constants';
-
-// Define the AIStudio interface locally to avoid global declaration conflicts
-interface AIStudio {
-    hasSelectedApiKey: () => Promise<boolean>;
-    openSelectKey: () => Promise<void>;
-}
-
-// Helper to safely access window.aistudio
-const getAIStudio = (): AIStudio => {
-    return (window as any).aistudio;
-};
+import { getVideoProvider } from './services/providers';
+import { useGenerationJobs } from './hooks/useGenerationJobs';
+import type { ActiveJob } from './hooks/useGenerationJobs';
+import { useHistory } from './hooks/useHistory';
+import { createHistoryEntry } from './services/historyStore';
+import { HistoryPanel } from './components/HistoryPanel';
+import { BatchPanel } from './components/BatchPanel';
+import { ResultCard } from './components/ResultCard';
+import { useBatchQueue } from './hooks/useBatchQueue';
+import { StoryboardPanel } from './components/StoryboardPanel';
+import { useStoryboard } from './hooks/useStoryboard';
+import { PromptBuilder } from './components/PromptBuilder';
+import { PromptAssistant } from './components/PromptAssistant';
+import { AdvancedSettings } from './components/AdvancedSettings';
+import { UsagePanel } from './components/UsagePanel';
+import { ProjectMenu } from './components/ProjectMenu';
+import { useUsageLedger } from './hooks/useUsageLedger';
+import { CandidatePicker } from './components/CandidatePicker';
+import { ImageCropper } from './components/ImageCropper';
+import { ErrorNotice } from './components/ErrorNotice';
+import { ApiKeySelectionScreen } from './components/ApiKeySelectionScreen';
+import { classifyError } from './services/errors';
+import type { GenerationError } from './services/errors';
+import { supportsPromptAssistance } from './services/geminiService';
+import { createCenteredCrop, loadSourceImage, renderCroppedImage } from './services/imagePrep';
+import type { SourceImage } from './services/imagePrep';
+import { createDefaultGenerationOptions, validateGenerationOptions } from './services/generationOptions';
+import { estimateCost, formatCost } from './services/usageLedger';
+import { parseProject, serializeProject } from './services/projectFile';
+import { buildDownloadName, downloadBlob } from './services/download';
+import { DEFAULT_CLIP_EDIT } from './services/clipEditor';
+import { describeCredentialSource, forgetCredentials, getConfiguredProxyUrl, getCredentialSource, restoreCredentials } from './services/credentials';
+import type { ImageFile, AspectRatio, ClipEdit, CropRect, GenerationJob, GenerationOptions, HistoryEntry, OverlaySettings } from './types';
+import { DEFAULT_OVERLAY_SETTINGS, LOADING_MESSAGES, RANDOM_PROMPTS } from './constants';
 
 const UploadIcon: React.FC<{className?: string}> = ({className}) => (
     <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className={className || "w-10 h-10 text-gray-400"}>
@@ -33,31 +53,27 @@ const HelpIcon: React.FC<{className?: string}> = ({className}) => (
 );
 
 
-const LoadingOverlay: React.FC<{ message: string }> = ({ message }) => (
-    <div className="fixed inset-0 bg-gray-900 bg-opacity-80 backdrop-blur-sm flex flex-col items-center justify-center z-50">
+const LoadingOverlay: React.FC<{ message: string; jobs: ActiveJob[]; onCancel: (id: string) => void }> = ({ message, jobs, onCancel }) => (
+    <div className="fixed inset-0 bg-gray-900 bg-opacity-80 backdrop-blur-sm flex flex-col items-center justify-center z-50 p-4">
         <div className="w-16 h-16 border-4 border-dashed rounded-full animate-spin border-indigo-500"></div>
         <p className="text-xl text-white mt-6 font-semibold">{message}</p>
-    </div>
-);
-
-const ApiKeySelectionScreen: React.FC<{ onSelect: () => void }> = ({ onSelect }) => (
-    <div className="flex items-center justify-center min-h-screen p-4">
-        <div className="max-w-md w-full bg-gray-800 p-8 rounded-2xl shadow-lg text-center border border-gray-700">
-            <h1 className="text-3xl font-bold text-indigo-400 mb-4">Welcome!</h1>
-            <p className="text-gray-300 mb-6">To generate videos with the Veo model, you need to select an API key. This is a required step before you can use the app.</p>
-            <button
-                onClick={onSelect}
-                className="w-full text-lg font-bold py-3 px-6 rounded-lg bg-gradient-to-r from-indigo-600 to-purple-600 hover:from-indigo-500 hover:to-purple-500 transition-all duration-300 transform hover:scale-105"
-            >
-                Select API Key
-            </button>
-            <p className="text-xs text-gray-500 mt-4">
-                For more information on billing, please visit the{' '}
-                <a href="https://ai.google.dev/gemini-api/docs/billing" target="_blank" rel="noopener noreferrer" className="text-indigo-400 hover:underline">
-                    official documentation
-                </a>.
-            </p>
-        </div>
+        <ul className="mt-6 w-full max-w-lg space-y-3">
+            {jobs.map(job => (
+                <li key={job.id} className="flex items-center gap-4 bg-gray-800 border border-gray-700 rounded-lg p-3">
+                    <div className="flex-1 min-w-0">
+                        <p className="text-sm text-gray-300 truncate" title={job.prompt}>{job.prompt}</p>
+                        <p className="text-xs text-gray-500">{job.aspectRatio} &middot; {job.progress}</p>
+                    </div>
+                    <button
+                        onClick={() => onCancel(job.id)}
+                        className="text-sm font-semibold py-1.5 px-4 rounded-md bg-red-600 hover:bg-red-500 transition-colors"
+                    >
+                        Cancel
+                    </button>
+                </li>
+            ))}
+        </ul>
+        <p className="text-xs text-gray-500 mt-4">You can safely reload this page; generations resume automatically. Cancelling stops waiting for the result, but the request may still be billed.</p>
     </div>
 );
 
@@ -76,12 +92,21 @@ const HelpModal: React.FC<{ isOpen: boolean; onClose: () => void }> = ({ isOpen,
                 <div className="space-y-4 text-gray-300">
                     <p>Follow these simple steps to create your cinematic video intro:</p>
                     <ol className="list-decimal list-inside space-y-3 pl-2">
-                        <li><span className="font-semibold text-indigo-300">API Key:</span> If prompted, select your Google AI Studio API key. This is a necessary first step to power the video generation.</li>
-                        <li><span className="font-semibold text-indigo-300">Upload Image:</span> Click the upload area to choose an image from your device. This image will be the starting point for your video.</li>
-                        <li><span className="font-semibold text-indigo-300">Describe Your Vision:</span> Write a short description of the video you want to create. For example, "A futuristic city with flying cars." If you leave this blank, a random, cool prompt will be chosen for you!</li>
+                        <li><span className="font-semibold text-indigo-300">API Key:</span> If prompted, select your Google AI Studio API key, paste a Gemini API key or point the app at an API proxy. The key is checked before it is used, and you can forget it from the header at any time.</li>
+                        <li><span className="font-semibold text-indigo-300">Upload Image:</span> Click the upload area to choose an image from your device. This image will be the starting point for your video. Crop it to the frame you want; phone photos are turned upright, converted and resized automatically, and their metadata is removed.</li>
+                        <li><span className="font-semibold text-indigo-300">Describe Your Vision:</span> Write a short description of the video you want to create. For example, "A futuristic city with flying cars." If you leave this blank, a random, cool prompt will be chosen for you! Better still, click "Suggest prompts from image" for ideas that match what your picture actually shows, or "Enhance my prompt" to turn a rough idea into a detailed shot with camera and lighting directions; pick a suggestion and edit it before generating. Click "Use a template" to fill in a saved house style with your channel name, genre and mood, add camera, lighting and pacing modifiers, and share presets with your team as JSON.</li>
                         <li><span className="font-semibold text-indigo-300">Choose Aspect Ratio:</span> Select '16:9' for a standard widescreen (landscape) video, or '9:16' for a vertical (portrait) video, perfect for mobile.</li>
+                        <li><span className="font-semibold text-indigo-300">Fine-tune (optional):</span> Open Advanced Settings to pick a faster or higher-quality model, render in 1080p, set the clip length, exclude things with a negative prompt, or fix a seed so a render can be reproduced later. Ask for several candidates and pick your favorite take.</li>
                         <li><span className="font-semibold text-indigo-300">Generate Video:</span> Hit the "Generate Video" button. The AI can take a few minutes to work its magic, so please be patient. You'll see reassuring messages while you wait.</li>
                         <li><span className="font-semibold text-indigo-300">Enjoy & Download:</span> Once finished, your video will appear at the bottom. You can watch it, and use the download button to save it.</li>
+                        <li><span className="font-semibold text-indigo-300">Trim &amp; Pick a Poster:</span> Drag the handles on the frame strip under the finished video to cut a weak start or ending (one click trims half a second from both ends), change the playback speed, and export the re-encoded clip. Pause on any frame to save it as a PNG thumbnail. Downloads are named after the prompt, aspect ratio and time.</li>
+                        <li><span className="font-semibold text-indigo-300">Export for Other Platforms:</span> Tick one or more presets under the finished video, such as YouTube, Shorts/Reels/TikTok, X, WebM, an animated GIF or an animated WebP, and export them in one go. Each is resized for its platform and checked against its length and file-size limits; several formats download together as a ZIP.</li>
+                        <li><span className="font-semibold text-indigo-300">Add Your Branding:</span> Below the finished video, add a title, subtitle and logo. Toggle the safe-area guide to keep text clear of cropping, then export a new file with the overlays burned in.</li>
+                        <li><span className="font-semibold text-indigo-300">Batch Mode:</span> Switch to the Batch tab to queue every combination of several images, prompts and aspect ratios at once. Failed videos can be retried one by one, and the finished batch downloads as a single ZIP with a manifest.</li>
+                        <li><span className="font-semibold text-indigo-300">Storyboard Mode:</span> Build a 15&ndash;30 second intro from several shots. Each shot can continue from the last frame of the one before, and the finished shots are stitched into one video with optional crossfades.</li>
+                        <li><span className="font-semibold text-indigo-300">Keep an Eye on Spend:</span> Each generation is billed by the second. Usage &amp; Budget shows the estimated cost of every submitted operation and your session, daily and monthly totals. Set a budget to be asked, or stopped, before going over it, adjust the prices to match your plan, and export the ledger as CSV.</li>
+                        <li><span className="font-semibold text-indigo-300">Save &amp; Share Projects:</span> "Save project" downloads one ZIP with the start image (and the uncropped original), prompt, settings, overlays, trim and the finished video with its generation details. A teammate opens it with "Open project" and carries on exactly where you left off.</li>
+                        <li><span className="font-semibold text-indigo-300">Revisit Past Takes:</span> Every video you generate is kept in the History section in your browser. Play, download, delete or regenerate any take with the same image, prompt, aspect ratio and settings.</li>
                     </ol>
                 </div>
                 <div className="mt-8 text-center">
@@ -100,26 +125,86 @@ const HelpModal: React.FC<{ isOpen: boolean; onClose: () => void }> = ({ isOpen,
 
 export default function App() {
     const [image, setImage] = useState<ImageFile | null>(null);
+    // The uploaded original, kept so the crop can be adjusted or redone for another aspect ratio.
+    const [imageSource, setImageSource] = useState<SourceImage | null>(null);
+    const [imageCrop, setImageCrop] = useState<CropRect | null>(null);
+    const [isCropperOpen, setIsCropperOpen] = useState<boolean>(false);
     const [prompt, setPrompt] = useState<string>('');
     const [aspectRatio, setAspectRatio] = useState<AspectRatio>('16:9');
-    const [isLoading, setIsLoading] = useState<boolean>(false);
     const [loadingMessage, setLoadingMessage] = useState<string>('');
-    const [videoUrl, setVideoUrl] = useState<string | null>(null);
-    const [error, setError] = useState<string | null>(null);
+    const [result, setResult] = useState<HistoryEntry | null>(null);
+    const [candidates, setCandidates] = useState<HistoryEntry[]>([]);
+    const [generationOptions, setGenerationOptions] = useState<GenerationOptions>(() => createDefaultGenerationOptions(getVideoProvider()));
+    const [overlaySettings, setOverlaySettings] = useState<OverlaySettings>(DEFAULT_OVERLAY_SETTINGS);
+    // Trim and speed per take, so switching between takes keeps each one's edit.
+    const [clipEdits, setClipEdits] = useState<Record<string, ClipEdit>>({});
+    const [error, setError] = useState<string | GenerationError | null>(null);
     const [apiKeyReady, setApiKeyReady] = useState<boolean>(false);
     const [isHelpModalOpen, setIsHelpModalOpen] = useState<boolean>(false);
+    const [isPromptBuilderOpen, setIsPromptBuilderOpen] = useState<boolean>(false);
+    const [mode, setMode] = useState<'single' | 'batch' | 'storyboard'>('single');
     const fileInputRef = useRef<HTMLInputElement>(null);
 
+    const { entries: historyEntries, addEntry: addHistoryEntry, removeEntry: removeHistoryEntry } = useHistory();
+
+    const handleGenerationComplete = useCallback((job: GenerationJob, videos: Blob[]) => {
+        if (videos.length === 1) {
+            const entry = createHistoryEntry(job, videos[0]);
+            addHistoryEntry(entry);
+            setResult(entry);
+            return;
+        }
+        const entries = videos.map((video, index) => createHistoryEntry(job, video, index));
+        entries.forEach(addHistoryEntry);
+        setCandidates(entries);
+    }, [addHistoryEntry]);
+
+    const handleGenerationError = useCallback((_job: GenerationJob, e: unknown) => {
+        console.error(e);
+        const generationError = classifyError(e);
+        if (generationError.kind === 'invalid-key' && getVideoProvider().capabilities.requiresApiKey) {
+            setApiKeyReady(false); // Reset to show API key selection screen
+        }
+        setError(generationError);
+    }, []);
+
+    const { activeJobs, startJob, cancelJob } = useGenerationJobs({
+        onComplete: handleGenerationComplete,
+        onError: handleGenerationError,
+    });
+    const isLoading = activeJobs.length > 0;
+
+    // Batch and storyboard videos land in the history without replacing the current result.
+    const handleBackgroundVideoComplete = useCallback((job: GenerationJob, videos: Blob[]) => {
+        videos.forEach((video, index) => addHistoryEntry(createHistoryEntry(job, video, videos.length > 1 ? index : undefined)));
+    }, [addHistoryEntry]);
+
+    const {
+        items: batchItems,
+        concurrency: batchConcurrency,
+        setConcurrency: setBatchConcurrency,
+        enqueue: enqueueBatch,
+        retry: retryBatchItem,
+        cancel: cancelBatchItem,
+        clearFinished: clearFinishedBatchItems,
+    } = useBatchQueue({ onComplete: handleBackgroundVideoComplete });
+
+    const storyboard = useStoryboard({ onShotComplete: handleBackgroundVideoComplete });
+
+    const usage = useUsageLedger();
+
+    const provider = getVideoProvider();
+    const optionErrors = validateGenerationOptions(generationOptions, mode === 'storyboard' ? storyboard.aspectRatio : aspectRatio, provider);
+    const nextCost = estimateCost(generationOptions, provider, usage.prices);
+    const clipEdit = (result && clipEdits[result.id]) || DEFAULT_CLIP_EDIT;
+
     useEffect(() => {
         const checkApiKey = async () => {
-            try {
-                const hasKey = await getAIStudio().hasSelectedApiKey();
-                setApiKeyReady(hasKey);
-            } catch (e) {
-                console.error("Could not check for API key", e);
-                // Assume it's not ready if the check fails
-                setApiKeyReady(false);
+            if (!getVideoProvider().capabilities.requiresApiKey) {
+                setApiKeyReady(true);
+                return;
             }
+            setApiKeyReady(Boolean(await restoreCredentials()));
         };
         checkApiKey();
     }, []);
@@ -139,73 +224,194 @@ export default function App() {
         return () => clearInterval(interval);
     }, [isLoading]);
 
-    const handleSelectApiKey = async () => {
+    const handleForgetCredentials = () => {
+        forgetCredentials();
+        setError(null);
+        setApiKeyReady(false);
+    };
+
+    const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) return;
         try {
-            await getAIStudio().openSelectKey();
-            // Assume key selection is successful to avoid race conditions
-            setApiKeyReady(true);
-        } catch(e) {
-            console.error("Could not open API key selection", e);
-            setError("There was an issue with the API key selection dialog.");
+            const source = await loadSourceImage(file);
+            setError(null);
+            setImageSource(source);
+            setImageCrop(null);
+            setIsCropperOpen(true);
+        } catch (e: any) {
+            setError(e.message);
         }
     };
 
+    const handleCropConfirm = (crop: CropRect) => {
+        if (!imageSource) return;
+        setImageCrop(crop);
+        setImage(renderCroppedImage(imageSource, crop, aspectRatio));
+        setIsCropperOpen(false);
+    };
 
-    const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-        const file = event.target.files?.[0];
-        if (file) {
-            const reader = new FileReader();
-            reader.onload = (e) => {
-                const dataUrl = e.target?.result as string;
-                setImage({ id: Date.now().toString(), dataUrl, name: file.name });
-            };
-            reader.readAsDataURL(file);
+    const handleCropCancel = () => {
+        setIsCropperOpen(false);
+        // A freshly uploaded image that was never cropped is dropped.
+        if (!imageCrop) setImageSource(null);
+    };
+
+    const handleRemoveImage = () => {
+        setImage(null);
+        setImageSource(null);
+        setImageCrop(null);
+    };
+
+    // A crop only fits one aspect ratio, so switching re-centres it.
+    const handleAspectRatioChange = (ratio: AspectRatio) => {
+        setAspectRatio(ratio);
+        if (imageSource && imageCrop && ratio !== aspectRatio) {
+            const crop = createCenteredCrop(imageSource.canvas.width, imageSource.canvas.height, ratio);
+            setImageCrop(crop);
+            setImage(renderCroppedImage(imageSource, crop, ratio));
         }
     };
 
-    const handleGenerate = async () => {
+    const handleGenerate = () => {
         if (!image) {
             setError("Please upload an image to generate a video.");
             return;
         }
 
+        if (optionErrors.length > 0) {
+            setError("Please fix the advanced settings before generating.");
+            return;
+        }
+
+        if (!usage.approveSpend(nextCost, setError)) return;
+
         setError(null);
-        setVideoUrl(null);
-        setIsLoading(true);
+        setResult(null);
+        setCandidates([]);
 
         const finalPrompt = prompt || RANDOM_PROMPTS[Math.floor(Math.random() * RANDOM_PROMPTS.length)];
         if(!prompt){
             setPrompt(finalPrompt);
         }
 
+        startJob({ prompt: finalPrompt, image, aspectRatio, options: generationOptions });
+    };
+
+    const handlePlayHistoryEntry = (entry: HistoryEntry) => {
+        setCandidates([]);
+        setResult(entry);
+    };
+
+    const handleRegenerate = (entry: HistoryEntry) => {
+        const options = entry.options ?? createDefaultGenerationOptions(provider);
+        if (!usage.approveSpend(estimateCost(options, provider, usage.prices), setError)) return;
+        setImage(entry.image);
+        setImageSource(null);
+        setImageCrop(null);
+        setPrompt(entry.prompt);
+        setAspectRatio(entry.aspectRatio);
+        // Entries saved before settings were recorded regenerate with the defaults.
+        if (entry.options) setGenerationOptions(entry.options);
+        setError(null);
+        setResult(null);
+        setCandidates([]);
+        startJob({ prompt: entry.prompt, image: entry.image, aspectRatio: entry.aspectRatio, options });
+    };
+
+    const handleEnqueueBatch = (images: ImageFile[], prompts: string[], aspectRatios: AspectRatio[]) => {
+        if (!usage.approveSpend(images.length * prompts.length * aspectRatios.length * nextCost, setError)) return;
+        setError(null);
+        enqueueBatch(images, prompts, aspectRatios, generationOptions);
+    };
+
+    const handleRetryBatchItem = (id: string) => {
+        const item = batchItems.find(candidate => candidate.id === id);
+        if (item && !usage.approveSpend(estimateCost(item.options, provider, usage.prices), setError)) return;
+        retryBatchItem(id);
+    };
+
+    const handleGenerateStoryboard = (onlyId?: string) => {
+        const shotCount = onlyId ? 1 : storyboard.shots.filter(shot => !shot.video).length;
+        if (!usage.approveSpend(shotCount * nextCost, setError)) return;
+        setError(null);
+        storyboard.generate(generationOptions, onlyId);
+    };
+
+    const handleDeleteHistoryEntry = (entry: HistoryEntry) => {
+        if (window.confirm("Delete this video from your history? This cannot be undone.")) {
+            removeHistoryEntry(entry.id);
+            if (result?.id === entry.id) setResult(null);
+            setCandidates(prev => prev.filter(candidate => candidate.id !== entry.id));
+        }
+    };
+
+    const handleSaveProject = async () => {
         try {
-            const url = await generateVideo(finalPrompt, image.dataUrl, aspectRatio, setLoadingMessage);
-            setVideoUrl(url);
+            const project = await serializeProject({
+                prompt,
+                aspectRatio,
+                image,
+                source: imageSource,
+                crop: imageCrop,
+                options: generationOptions,
+                overlay: overlaySettings,
+                clipEdit,
+                result,
+            });
+            downloadBlob(project, buildDownloadName({ prompt: prompt || result?.prompt || '', aspectRatio, timestamp: Date.now(), suffix: 'project', extension: 'zip' }));
         } catch (e: any) {
-            console.error(e);
-            let errorMessage = e.message || "An unknown error occurred.";
-            if (errorMessage.includes("Requested entity was not found")) {
-                errorMessage = "API Key is invalid or not found. Please select a valid API key to continue.";
-                setApiKeyReady(false); // Reset to show API key selection screen
+            console.error("Could not save the project", e);
+            setError(e.message || "Could not save the project.");
+        }
+    };
+
+    const handleOpenProject = async (file: File) => {
+        if ((image || prompt || result) && !window.confirm("Opening a project replaces the current image, prompt, settings and result. Continue?")) return;
+        try {
+            const project = await parseProject(file);
+            setImage(project.image);
+            setImageSource(project.source);
+            setImageCrop(project.crop);
+            setPrompt(project.prompt);
+            setAspectRatio(project.aspectRatio);
+            setGenerationOptions(project.options);
+            setOverlaySettings(project.overlay);
+            setCandidates([]);
+            setResult(project.result);
+            if (project.result) {
+                const { id } = project.result;
+                setClipEdits(edits => ({ ...edits, [id]: project.clipEdit }));
             }
-            setError(errorMessage);
-        } finally {
-            setIsLoading(false);
+            setError(null);
+        } catch (e: any) {
+            console.error("Could not open the project", e);
+            setError(e.message || "Could not open the project.");
         }
     };
 
     if (!apiKeyReady) {
         return (
             <div className="min-h-screen bg-gray-900 text-white">
-                <ApiKeySelectionScreen onSelect={handleSelectApiKey} />
+                <ApiKeySelectionScreen error={error} onReady={() => { setError(null); setApiKeyReady(true); }} />
             </div>
         )
     }
 
     return (
         <div className="min-h-screen bg-gray-900 text-white p-4 sm:p-6 lg:p-8">
-            {isLoading && <LoadingOverlay message={loadingMessage} />}
+            {isLoading && <LoadingOverlay message={loadingMessage} jobs={activeJobs} onCancel={cancelJob} />}
             <HelpModal isOpen={isHelpModalOpen} onClose={() => setIsHelpModalOpen(false)} />
+            {isCropperOpen && imageSource && (
+                <ImageCropper
+                    source={imageSource}
+                    aspectRatio={aspectRatio}
+                    initialCrop={imageCrop}
+                    onConfirm={handleCropConfirm}
+                    onCancel={handleCropCancel}
+                />
+            )}
             <div className="max-w-4xl mx-auto relative">
                  <button
                     onClick={() => setIsHelpModalOpen(true)}
@@ -223,97 +429,199 @@ export default function App() {
                         </h1>
                     </div>
                     <p className="mt-4 text-lg text-gray-300">Turn your image into a cinematic masterpiece.</p>
+                    {!provider.capabilities.requiresApiKey && (
+                        <p className="mt-2 text-sm text-yellow-400">Using the {provider.label} provider &mdash; no API calls are made.</p>
+                    )}
+                    {provider.capabilities.requiresApiKey && !getConfiguredProxyUrl() && (
+                        <p className="mt-2 text-sm text-gray-400">
+                            Using {describeCredentialSource(getCredentialSource())}.{' '}
+                            <button onClick={handleForgetCredentials} className="text-indigo-400 hover:underline">
+                                {getCredentialSource() === 'stored' || getCredentialSource() === 'proxy' ? 'Forget' : 'Change'}
+                            </button>
+                        </p>
+                    )}
                 </header>
 
                 <main className="space-y-8">
-                     <div className="bg-gray-800 border border-gray-700 p-6 rounded-2xl shadow-lg">
-                        <h2 className="text-2xl font-semibold mb-4 text-indigo-300">1. Upload Your Inspiration</h2>
-                        <div 
-                            className="relative border-2 border-dashed border-gray-600 rounded-lg p-8 text-center cursor-pointer hover:border-indigo-500 hover:bg-gray-700/50 transition-all duration-300"
-                            onClick={() => fileInputRef.current?.click()}
-                        >
-                            <input type="file" accept="image/*" ref={fileInputRef} onChange={handleFileChange} className="hidden" />
-                            {image ? (
-                                <div className="relative group">
-                                    <img src={image.dataUrl} alt="Preview" className="mx-auto max-h-48 rounded-md shadow-md" />
-                                    <div className="absolute inset-0 bg-black bg-opacity-50 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity">
-                                        <p className="text-white font-semibold">Click to change image</p>
-                                    </div>
-                                    <button 
-                                        onClick={(e) => { e.stopPropagation(); setImage(null); }}
-                                        className="absolute -top-2 -right-2 bg-red-600 text-white rounded-full p-1.5 hover:bg-red-500 transition-transform transform group-hover:scale-110"
-                                        aria-label="Remove image"
+                    <div className="grid grid-cols-3 gap-2 bg-gray-800 border border-gray-700 p-1 rounded-xl">
+                        {(['single', 'batch', 'storyboard'] as const).map(option => (
+                            <button
+                                key={option}
+                                onClick={() => setMode(option)}
+                                className={`py-2 rounded-lg font-semibold transition-colors ${mode === option ? 'bg-indigo-600 text-white' : 'text-gray-400 hover:text-white'}`}
+                            >
+                                {option === 'single' ? 'Single Video' : option === 'batch' ? 'Batch' : 'Storyboard'}
+                            </button>
+                        ))}
+                    </div>
+
+                    <AdvancedSettings
+                        options={generationOptions}
+                        models={provider.capabilities.models}
+                        errors={optionErrors}
+                        onChange={setGenerationOptions}
+                    />
+
+                    <UsagePanel
+                        records={usage.records}
+                        prices={usage.prices}
+                        budget={usage.budget}
+                        models={provider.capabilities.models}
+                        nextCost={nextCost}
+                        onPricesChange={usage.setPrices}
+                        onBudgetChange={usage.setBudget}
+                    />
+
+                    {mode === 'single' ? (
+                        <>
+                            <ProjectMenu canSave={Boolean(image || prompt || result)} onSave={handleSaveProject} onOpen={handleOpenProject} />
+
+                             <div className="bg-gray-800 border border-gray-700 p-6 rounded-2xl shadow-lg">
+                                <h2 className="text-2xl font-semibold mb-4 text-indigo-300">1. Upload Your Inspiration</h2>
+                                <div 
+                                    className="relative border-2 border-dashed border-gray-600 rounded-lg p-8 text-center cursor-pointer hover:border-indigo-500 hover:bg-gray-700/50 transition-all duration-300"
+                                    onClick={() => fileInputRef.current?.click()}
+                                >
+                                    <input type="file" accept="image/*,.heic,.heif" ref={fileInputRef} onChange={handleFileChange} className="hidden" />
+                                    {image ? (
+                                        <div className="relative group">
+                                            <img src={image.dataUrl} alt="Preview" className="mx-auto max-h-48 rounded-md shadow-md" />
+                                            <div className="absolute inset-0 bg-black bg-opacity-50 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity">
+                                                <p className="text-white font-semibold">Click to change image</p>
+                                            </div>
+                                            {imageSource && (
+                                                <button
+                                                    onClick={(e) => { e.stopPropagation(); setIsCropperOpen(true); }}
+                                                    className="relative mt-3 text-sm font-semibold py-1.5 px-4 rounded-md bg-gray-700 hover:bg-gray-600 transition-colors"
+                                                >
+                                                    Adjust crop
+                                                </button>
+                                            )}
+                                            <button 
+                                                onClick={(e) => { e.stopPropagation(); handleRemoveImage(); }}
+                                                className="absolute -top-2 -right-2 bg-red-600 text-white rounded-full p-1.5 hover:bg-red-500 transition-transform transform group-hover:scale-110"
+                                                aria-label="Remove image"
+                                            >
+                                                <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" /></svg>
+                                            </button>
+                                        </div>
+                                    ) : (
+                                        <div className="flex flex-col items-center">
+                                            <UploadIcon />
+                                            <p className="mt-2 text-gray-400">Click to upload an image</p>
+                                            <p className="text-sm text-gray-500">PNG, JPG, WEBP, HEIC, GIF or SVG up to 25 MB</p>
+                                        </div>
+                                    )}
+                                </div>
+                            </div>
+
+                            <div className="bg-gray-800 border border-gray-700 p-6 rounded-2xl shadow-lg">
+                                <h2 className="text-2xl font-semibold mb-4 text-indigo-300">2. Describe Your Vision</h2>
+                                <textarea
+                                    value={prompt}
+                                    onChange={(e) => setPrompt(e.target.value)}
+                                    placeholder="e.g., An epic cinematic intro for a sci-fi blockbuster..."
+                                    className="w-full h-24 p-3 bg-gray-900 border border-gray-600 rounded-md focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors"
+                                />
+                                <div className="flex flex-wrap items-center justify-between gap-2 mt-2">
+                                    <p className="text-sm text-gray-400">Or leave blank for a randomly generated prompt!</p>
+                                    <button
+                                        onClick={() => setIsPromptBuilderOpen(open => !open)}
+                                        className="text-sm font-semibold text-indigo-400 hover:text-indigo-300 transition-colors"
                                     >
-                                        <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" /></svg>
+                                        {isPromptBuilderOpen ? 'Hide templates' : 'Use a template'}
                                     </button>
                                 </div>
-                            ) : (
-                                <div className="flex flex-col items-center">
-                                    <UploadIcon />
-                                    <p className="mt-2 text-gray-400">Click to upload an image</p>
-                                    <p className="text-sm text-gray-500">PNG, JPG, WEBP</p>
-                                </div>
-                            )}
-                        </div>
-                    </div>
+                                {supportsPromptAssistance(provider) && (
+                                    <PromptAssistant image={image} aspectRatio={aspectRatio} prompt={prompt} onApply={setPrompt} />
+                                )}
+                                {isPromptBuilderOpen && <PromptBuilder onApply={setPrompt} />}
+                            </div>
+                    
+                            <div className="bg-gray-800 border border-gray-700 p-6 rounded-2xl shadow-lg">
+                                 <h2 className="text-2xl font-semibold mb-4 text-indigo-300">3. Choose Aspect Ratio</h2>
+                                 <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                                    <button onClick={() => handleAspectRatioChange('16:9')} className={`flex flex-col items-center justify-center p-4 rounded-lg border-2 transition-all ${aspectRatio === '16:9' ? 'border-indigo-500 bg-indigo-900/50' : 'border-gray-600 bg-gray-700 hover:border-indigo-600'}`}>
+                                        <div className="w-16 h-9 bg-gray-500 rounded-sm mb-2"></div>
+                                        <span className="font-semibold">16:9 (Landscape)</span>
+                                    </button>
+                                     <button onClick={() => handleAspectRatioChange('9:16')} className={`flex flex-col items-center justify-center p-4 rounded-lg border-2 transition-all ${aspectRatio === '9:16' ? 'border-indigo-500 bg-indigo-900/50' : 'border-gray-600 bg-gray-700 hover:border-indigo-600'}`}>
+                                        <div className="w-9 h-16 bg-gray-500 rounded-sm mb-2"></div>
+                                        <span className="font-semibold">9:16 (Portrait)</span>
+                                    </button>
+                                 </div>
+                            </div>
 
-                    <div className="bg-gray-800 border border-gray-700 p-6 rounded-2xl shadow-lg">
-                        <h2 className="text-2xl font-semibold mb-4 text-indigo-300">2. Describe Your Vision</h2>
-                        <textarea
-                            value={prompt}
-                            onChange={(e) => setPrompt(e.target.value)}
-                            placeholder="e.g., An epic cinematic intro for a sci-fi blockbuster..."
-                            className="w-full h-24 p-3 bg-gray-900 border border-gray-600 rounded-md focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors"
+                            <div className="pt-4">
+                                <button
+                                    onClick={handleGenerate}
+                                    disabled={!image || isLoading || optionErrors.length > 0}
+                                    className="w-full flex items-center justify-center gap-3 text-xl font-bold py-4 px-6 rounded-lg bg-gradient-to-r from-indigo-600 to-purple-600 hover:from-indigo-500 hover:to-purple-500 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-300 transform hover:scale-105 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-indigo-500"
+                                >
+                                    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-6 h-6"><path strokeLinecap="round" strokeLinejoin="round" d="M9.813 15.904 9 18.75l-.813-2.846a4.5 4.5 0 0 0-3.09-3.09L2.25 12l2.846-.813a4.5 4.5 0 0 0 3.09-3.09L9 5.25l.813 2.846a4.5 4.5 0 0 0 3.09 3.09L15.75 12l-2.846.813a4.5 4.5 0 0 0-3.09 3.09ZM18.259 8.715 18 9.75l-.259-1.035a3.375 3.375 0 0 0-2.455-2.456L14.25 6l1.036-.259a3.375 3.375 0 0 0 2.455-2.456L18 2.25l.259 1.035a3.375 3.375 0 0 0 2.456 2.456L21.75 6l-1.035.259a3.375 3.375 0 0 0-2.456 2.456Z" /></svg>
+                                    Generate Video
+                                </button>
+                                <p className="text-center text-sm text-gray-400 mt-2">Estimated cost: {formatCost(nextCost)}</p>
+                            </div>
+                        </>
+                    ) : mode === 'batch' ? (
+                        <BatchPanel
+                            items={batchItems}
+                            concurrency={batchConcurrency}
+                            onConcurrencyChange={setBatchConcurrency}
+                            onEnqueue={handleEnqueueBatch}
+                            onRetry={handleRetryBatchItem}
+                            onCancel={cancelBatchItem}
+                            onClearFinished={clearFinishedBatchItems}
                         />
-                        <p className="text-sm text-gray-400 mt-2">Or leave blank for a randomly generated prompt!</p>
-                    </div>
-                    
-                    <div className="bg-gray-800 border border-gray-700 p-6 rounded-2xl shadow-lg">
-                         <h2 className="text-2xl font-semibold mb-4 text-indigo-300">3. Choose Aspect Ratio</h2>
-                         <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-                            <button onClick={() => setAspectRatio('16:9')} className={`flex flex-col items-center justify-center p-4 rounded-lg border-2 transition-all ${aspectRatio === '16:9' ? 'border-indigo-500 bg-indigo-900/50' : 'border-gray-600 bg-gray-700 hover:border-indigo-600'}`}>
-                                <div className="w-16 h-9 bg-gray-500 rounded-sm mb-2"></div>
-                                <span className="font-semibold">16:9 (Landscape)</span>
-                            </button>
-                             <button onClick={() => setAspectRatio('9:16')} className={`flex flex-col items-center justify-center p-4 rounded-lg border-2 transition-all ${aspectRatio === '9:16' ? 'border-indigo-500 bg-indigo-900/50' : 'border-gray-600 bg-gray-700 hover:border-indigo-600'}`}>
-                                <div className="w-9 h-16 bg-gray-500 rounded-sm mb-2"></div>
-                                <span className="font-semibold">9:16 (Portrait)</span>
-                            </button>
-                         </div>
-                    </div>
+                    ) : (
+                        <StoryboardPanel
+                            shots={storyboard.shots}
+                            aspectRatio={storyboard.aspectRatio}
+                            onAspectRatioChange={storyboard.setAspectRatio}
+                            crossfadeSeconds={storyboard.crossfadeSeconds}
+                            onCrossfadeChange={storyboard.setCrossfadeSeconds}
+                            isGenerating={storyboard.isGenerating}
+                            stitchProgress={storyboard.stitchProgress}
+                            stitchedVideo={storyboard.stitchedVideo}
+                            error={storyboard.error}
+                            onAddShot={storyboard.addShot}
+                            onUpdateShot={storyboard.updateShot}
+                            onRemoveShot={storyboard.removeShot}
+                            onMoveShot={storyboard.moveShot}
+                            onGenerate={handleGenerateStoryboard}
+                            onStitch={storyboard.stitch}
+                            onCancel={storyboard.cancel}
+                        />
+                    )}
 
-                    <div className="pt-4">
-                        <button
-                            onClick={handleGenerate}
-                            disabled={!image || isLoading}
-                            className="w-full flex items-center justify-center gap-3 text-xl font-bold py-4 px-6 rounded-lg bg-gradient-to-r from-indigo-600 to-purple-600 hover:from-indigo-500 hover:to-purple-500 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-300 transform hover:scale-105 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-indigo-500"
-                        >
-                            <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-6 h-6"><path strokeLinecap="round" strokeLinejoin="round" d="M9.813 15.904 9 18.75l-.813-2.846a4.5 4.5 0 0 0-3.09-3.09L2.25 12l2.846-.813a4.5 4.5 0 0 0 3.09-3.09L9 5.25l.813 2.846a4.5 4.5 0 0 0 3.09 3.09L15.75 12l-2.846.813a4.5 4.5 0 0 0-3.09 3.09ZM18.259 8.715 18 9.75l-.259-1.035a3.375 3.375 0 0 0-2.455-2.456L14.25 6l1.036-.259a3.375 3.375 0 0 0 2.455-2.456L18 2.25l.259 1.035a3.375 3.375 0 0 0 2.456 2.456L21.75 6l-1.035.259a3.375 3.375 0 0 0-2.456 2.456Z" /></svg>
-                            Generate Video
-                        </button>
-                    </div>
+                    {error && <ErrorNotice error={error} />}
 
-                    {error && (
-                        <div className="bg-red-900/50 border border-red-500 text-red-300 p-4 rounded-lg text-center">
-                            <strong>Error:</strong> {error}
-                        </div>
+                    {candidates.length > 0 && (
+                        <CandidatePicker
+                            candidates={candidates}
+                            onPick={(entry) => { setCandidates([]); setResult(entry); }}
+                        />
                     )}
 
-                    {videoUrl && (
-                        <div className="bg-gray-800 border border-gray-700 p-6 rounded-2xl shadow-lg">
-                            <h2 className="text-2xl font-semibold mb-4 text-indigo-300">Your Video Intro is Ready!</h2>
-                            <div className="aspect-w-16 aspect-h-9 bg-black rounded-lg overflow-hidden">
-                                <video src={videoUrl} controls autoPlay loop className="w-full h-full object-contain" />
-                            </div>
-                            <a 
-                                href={videoUrl} 
-                                download="robo-ai-intro.mp4"
-                                className="mt-4 inline-block w-full text-center py-3 px-6 rounded-lg bg-green-600 hover:bg-green-500 font-semibold transition-colors"
-                            >
-                                Download Video
-                            </a>
-                        </div>
+                    {result && (
+                        <ResultCard
+                            key={result.id}
+                            entry={result}
+                            overlaySettings={overlaySettings}
+                            onOverlaySettingsChange={setOverlaySettings}
+                            clipEdit={clipEdit}
+                            onClipEditChange={(edit) => setClipEdits(edits => ({ ...edits, [result.id]: edit }))}
+                        />
                     )}
+
+                    <HistoryPanel
+                        entries={historyEntries}
+                        onPlay={handlePlayHistoryEntry}
+                        onRegenerate={handleRegenerate}
+                        onDelete={handleDeleteHistoryEntry}
+                        disabled={isLoading}
+                    />
                 </main>
             </div>
         </div>
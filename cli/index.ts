@@ -0,0 +1,226 @@
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { ERROR_GUIDANCE } from '../constants';
+import { classifyError } from '../services/errors';
+import { isAbortError } from '../services/geminiService';
+import { validateGenerationOptions } from '../services/generationOptions';
+import { validateUploadImage } from '../services/imagePrep';
+import { createGenerationJob, runGenerationJob } from '../services/jobRunner';
+import { getVideoProvider } from '../services/providers';
+import { candidatePath, parseJobFile, resolveJob } from './jobSpec';
+import type { CliJob, JobSpec } from './jobSpec';
+import { startProxy } from './proxy';
+
+const USAGE = `Usage: robo-intro generate [options]
+       robo-intro proxy [--port <number>] [--host <address>] [--allow-origin <url>]
+
+generate: create a video intro from a start image and a prompt.
+proxy: forward the app's API calls to Gemini, adding the key on this machine.
+
+Generate options:
+  --image <file>            Start image (PNG, JPEG or WEBP)
+  --prompt <text>           Prompt text
+  --prompt-file <file>      Read the prompt from a file
+  --aspect <16:9|9:16>      Aspect ratio (default 16:9)
+  --out <file>              Output file (default <image>-<aspect>.mp4)
+  --model <id>              Model id
+  --resolution <720p|1080p> Output resolution
+  --duration <seconds>      Clip length
+  --seed <number>           Seed for reproducible renders, where the model supports it
+  --negative-prompt <text>  Things to keep out of the video
+  --count <number>          Number of candidate videos
+  --no-audio                Don't generate audio
+  --jobs <file>             Run every job in a JSON job file; the other options act as defaults
+  --provider <id>           Video provider (default: $VIDEO_PROVIDER or veo)
+  -h, --help                Show this help
+
+Proxy options:
+  --port <number>           Port to listen on (default 8787)
+  --host <address>          Address to listen on (default 127.0.0.1). The proxy
+                            adds your key to every request, so only listen on
+                            other interfaces if everyone on that network may spend it
+  --allow-origin <url>      Origin of the app (default http://localhost:3000)
+
+The API key is read from GEMINI_API_KEY (or API_KEY). Set API_PROXY_URL instead
+to send generate requests through a running proxy.`;
+
+// Exit codes: 1 when a generation failed, 2 for bad input.
+class UsageError extends Error {}
+
+const parseNumber = (value: string | undefined, flag: string): number | undefined => {
+  if (value === undefined) return undefined;
+  const number = Number(value);
+  if (!Number.isFinite(number)) {
+    throw new UsageError(`--${flag} must be a number.`);
+  }
+  return number;
+};
+
+const parseCommandLine = (argv: string[]) => {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      image: { type: 'string' },
+      prompt: { type: 'string' },
+      'prompt-file': { type: 'string' },
+      aspect: { type: 'string' },
+      out: { type: 'string' },
+      model: { type: 'string' },
+      resolution: { type: 'string' },
+      duration: { type: 'string' },
+      seed: { type: 'string' },
+      'negative-prompt': { type: 'string' },
+      count: { type: 'string' },
+      'no-audio': { type: 'boolean' },
+      jobs: { type: 'string' },
+      provider: { type: 'string' },
+      port: { type: 'string' },
+      host: { type: 'string' },
+      'allow-origin': { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+  const spec: JobSpec = {
+    image: values.image && path.resolve(values.image),
+    prompt: values.prompt,
+    promptFile: values['prompt-file'] && path.resolve(values['prompt-file']),
+    aspect: values.aspect,
+    out: values.out && path.resolve(values.out),
+    model: values.model,
+    resolution: values.resolution,
+    duration: parseNumber(values.duration, 'duration'),
+    seed: parseNumber(values.seed, 'seed'),
+    negativePrompt: values['negative-prompt'],
+    count: parseNumber(values.count, 'count'),
+    audio: values['no-audio'] ? false : undefined,
+  };
+  // Drop unset flags so they don't override job-file values.
+  const flags = Object.fromEntries(Object.entries(spec).filter(([, value]) => value !== undefined)) as JobSpec;
+  return {
+    command: positionals[0],
+    flags,
+    jobsFile: values.jobs,
+    providerId: values.provider,
+    port: parseNumber(values.port, 'port'),
+    host: values.host,
+    allowOrigin: values['allow-origin'],
+    help: values.help,
+  };
+};
+
+const loadJobs = async (flags: JobSpec, jobsFile: string | undefined, providerId: string | undefined): Promise<CliJob[]> => {
+  const provider = getVideoProvider(providerId);
+  const specs = jobsFile
+    ? parseJobFile(await readFile(jobsFile, 'utf8'), path.resolve(jobsFile)).map(spec => ({ ...flags, ...spec }))
+    : [flags];
+
+  const jobs: CliJob[] = [];
+  const problems: string[] = [];
+  for (const [index, spec] of specs.entries()) {
+    const label = specs.length > 1 ? `Job ${index + 1}: ` : '';
+    try {
+      const job = await resolveJob(spec, provider);
+      // Check everything up front so a bad job doesn't fail halfway through a paid run.
+      const errors = [...validateGenerationOptions(job.options, job.aspectRatio, provider), ...validateUploadImage(job.image)];
+      errors.forEach(error => problems.push(`${label}${error}`));
+      jobs.push(job);
+    } catch (e: any) {
+      problems.push(`${label}${e.message}`);
+    }
+  }
+  if (problems.length > 0) {
+    throw new UsageError(problems.join('\n'));
+  }
+  return jobs;
+};
+
+const runJob = async (job: CliJob, label: string, providerId: string | undefined, signal: AbortSignal): Promise<void> => {
+  const provider = getVideoProvider(providerId);
+  let lastMessage = '';
+  const onProgress = (message: string) => {
+    if (message === lastMessage) return;
+    lastMessage = message;
+    console.log(`${label} ${message}`);
+  };
+
+  const { videos } = await runGenerationJob(createGenerationJob(job, provider), { persist: false, signal, onProgress });
+  for (const [index, video] of videos.entries()) {
+    const out = candidatePath(job.out, index, videos.length);
+    await mkdir(path.dirname(out), { recursive: true });
+    await writeFile(out, Buffer.from(await video.arrayBuffer()));
+    console.log(`${label} Saved ${out}`);
+  }
+};
+
+const LOOPBACK_HOSTS = ['127.0.0.1', '::1', 'localhost'];
+
+const runProxy = async (port = 8787, host = '127.0.0.1', allowOrigin = 'http://localhost:3000'): Promise<number> => {
+  if (!process.env.API_KEY) {
+    throw new UsageError('Set GEMINI_API_KEY to the key the proxy should use.');
+  }
+  const server = await startProxy({ apiKey: process.env.API_KEY, port, host, allowOrigin });
+  console.log(`Forwarding http://${host.includes(':') ? `[${host}]` : host}:${port} to the Gemini API for ${allowOrigin}. Press Ctrl+C to stop.`);
+  if (!LOOPBACK_HOSTS.includes(host)) {
+    console.warn(`Warning: listening on ${host}. Anyone who can reach it can make billed API calls with your key.`);
+  }
+  await new Promise<void>(resolve => process.once('SIGINT', () => {
+    server.close(() => resolve());
+    server.closeAllConnections();
+  }));
+  return 0;
+};
+
+const main = async (argv: string[]): Promise<number> => {
+  const { command, flags, jobsFile, providerId, port, host, allowOrigin, help } = parseCommandLine(argv);
+  if (help || !command || command === 'help') {
+    console.log(USAGE);
+    return 0;
+  }
+  process.env.API_KEY ||= process.env.GEMINI_API_KEY;
+  if (command === 'proxy') {
+    return runProxy(port, host, allowOrigin);
+  }
+  if (command !== 'generate') {
+    throw new UsageError(`Unknown command "${command}".\n\n${USAGE}`);
+  }
+
+  if (getVideoProvider(providerId).capabilities.requiresApiKey && !process.env.API_KEY && !process.env.API_PROXY_URL) {
+    throw new UsageError('Set GEMINI_API_KEY to your Gemini API key, or API_PROXY_URL to a running proxy.');
+  }
+
+  const jobs = await loadJobs(flags, jobsFile, providerId);
+  const controller = new AbortController();
+  process.once('SIGINT', () => {
+    console.error('Cancelling... the remote operation may still be billed.');
+    controller.abort();
+  });
+
+  let failures = 0;
+  for (const [index, job] of jobs.entries()) {
+    const label = `[${index + 1}/${jobs.length}] ${path.basename(job.imagePath)} (${job.aspectRatio})`;
+    try {
+      await runJob(job, label, providerId, controller.signal);
+    } catch (e) {
+      if (isAbortError(e)) return 130;
+      failures++;
+      const error = classifyError(e);
+      const { title, guidance } = ERROR_GUIDANCE[error.kind];
+      console.error(`${label} ${title}: ${error.message}\n${label} ${guidance}`);
+    }
+  }
+  if (jobs.length > 1) {
+    console.log(`${jobs.length - failures} of ${jobs.length} jobs succeeded.`);
+  }
+  return failures > 0 ? 1 : 0;
+};
+
+main(process.argv.slice(2)).then(
+  code => { process.exitCode = code; },
+  e => {
+    const isUsageError = e instanceof UsageError || String(e?.code).startsWith('ERR_PARSE_ARGS');
+    console.error(isUsageError ? e.message : e);
+    process.exitCode = isUsageError ? 2 : 1;
+  }
+);
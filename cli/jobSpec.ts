@@ -0,0 +1,162 @@
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { AspectRatio, GenerationOptions, ImageFile, VideoProvider, VideoResolution } from '../types';
+import { createDefaultGenerationOptions } from '../services/generationOptions';
+
+// One run as written on the command line or in a job file. Everything is
+// optional here so job-file entries can inherit from the flags and `defaults`.
+export interface JobSpec {
+  image?: string;
+  prompt?: string;
+  promptFile?: string;
+  aspect?: string;
+  out?: string;
+  model?: string;
+  resolution?: string;
+  duration?: number;
+  seed?: number;
+  negativePrompt?: string;
+  count?: number;
+  audio?: boolean;
+}
+
+export interface CliJob {
+  imagePath: string;
+  image: ImageFile;
+  prompt: string;
+  aspectRatio: AspectRatio;
+  out: string;
+  options: GenerationOptions;
+}
+
+const STRING_FIELDS = ['image', 'prompt', 'promptFile', 'aspect', 'out', 'model', 'resolution', 'negativePrompt'] as const;
+const NUMBER_FIELDS = ['duration', 'seed', 'count'] as const;
+
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.webp': 'image/webp',
+};
+
+const ASPECT_RATIOS: AspectRatio[] = ['16:9', '9:16'];
+const RESOLUTIONS: VideoResolution[] = ['720p', '1080p'];
+
+const parseSpec = (value: unknown, label: string): JobSpec => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new Error(`${label} is not an object.`);
+  }
+  const entry = value as Record<string, unknown>;
+  for (const field of STRING_FIELDS) {
+    if (entry[field] !== undefined && typeof entry[field] !== 'string') {
+      throw new Error(`${label}: "${field}" must be a string.`);
+    }
+  }
+  for (const field of NUMBER_FIELDS) {
+    if (entry[field] !== undefined && typeof entry[field] !== 'number') {
+      throw new Error(`${label}: "${field}" must be a number.`);
+    }
+  }
+  if (entry.audio !== undefined && typeof entry.audio !== 'boolean') {
+    throw new Error(`${label}: "audio" must be true or false.`);
+  }
+  return entry as JobSpec;
+};
+
+// Accepts `{ defaults, jobs }` or a bare array of jobs. Relative paths are
+// resolved against the job file's directory.
+export const parseJobFile = (json: string, filePath: string): JobSpec[] => {
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error(`${filePath} is not valid JSON.`);
+  }
+  const jobs = Array.isArray(data) ? data : data?.jobs;
+  if (!Array.isArray(jobs) || jobs.length === 0) {
+    throw new Error(`${filePath} does not contain any jobs.`);
+  }
+  const defaults = !Array.isArray(data) && data.defaults !== undefined ? parseSpec(data.defaults, 'defaults') : {};
+  const baseDir = path.dirname(filePath);
+  const resolvePath = (value?: string) => (value === undefined ? undefined : path.resolve(baseDir, value));
+
+  return jobs.map((job, index) => {
+    const spec = { ...defaults, ...parseSpec(job, `Job ${index + 1}`) };
+    return {
+      ...spec,
+      image: resolvePath(spec.image),
+      promptFile: resolvePath(spec.promptFile),
+      out: resolvePath(spec.out),
+    };
+  });
+};
+
+const readInputFile = async (filePath: string): Promise<Buffer> => {
+  try {
+    return await readFile(filePath);
+  } catch (e: any) {
+    throw new Error(e?.code === 'ENOENT' ? `${filePath} does not exist.` : `Could not read ${filePath}: ${e?.message ?? e}`);
+  }
+};
+
+const readImage = async (imagePath: string): Promise<ImageFile> => {
+  const mimeType = IMAGE_MIME_TYPES[path.extname(imagePath).toLowerCase()];
+  if (!mimeType) {
+    throw new Error(`${imagePath}: the start image must be a PNG, JPEG or WEBP file.`);
+  }
+  const bytes = await readInputFile(imagePath);
+  return {
+    id: path.basename(imagePath),
+    dataUrl: `data:${mimeType};base64,${bytes.toString('base64')}`,
+    name: path.basename(imagePath),
+  };
+};
+
+const defaultOutPath = (imagePath: string, aspectRatio: AspectRatio) =>
+  path.resolve(`${path.basename(imagePath, path.extname(imagePath))}-${aspectRatio.replace(':', 'x')}.mp4`);
+
+export const resolveJob = async (spec: JobSpec, provider: VideoProvider): Promise<CliJob> => {
+  if (!spec.image) {
+    throw new Error('An image is required (--image).');
+  }
+  if (spec.prompt !== undefined && spec.promptFile !== undefined) {
+    throw new Error('Give either a prompt or a prompt file, not both.');
+  }
+  const prompt = (spec.promptFile !== undefined ? (await readInputFile(spec.promptFile)).toString('utf8') : spec.prompt ?? '').trim();
+  if (!prompt) {
+    throw new Error('A prompt is required (--prompt or --prompt-file).');
+  }
+  const aspectRatio = (spec.aspect ?? '16:9') as AspectRatio;
+  if (!ASPECT_RATIOS.includes(aspectRatio)) {
+    throw new Error(`Unknown aspect ratio "${spec.aspect}". Expected ${ASPECT_RATIOS.join(' or ')}.`);
+  }
+  const defaults = createDefaultGenerationOptions(provider);
+  const resolution = (spec.resolution ?? defaults.resolution) as VideoResolution;
+  if (!RESOLUTIONS.includes(resolution)) {
+    throw new Error(`Unknown resolution "${spec.resolution}". Expected ${RESOLUTIONS.join(' or ')}.`);
+  }
+
+  return {
+    imagePath: spec.image,
+    image: await readImage(spec.image),
+    prompt,
+    aspectRatio,
+    out: spec.out ?? defaultOutPath(spec.image, aspectRatio),
+    options: {
+      model: spec.model ?? defaults.model,
+      resolution,
+      negativePrompt: spec.negativePrompt ?? defaults.negativePrompt,
+      seed: spec.seed ?? defaults.seed,
+      numberOfVideos: spec.count ?? defaults.numberOfVideos,
+      durationSeconds: spec.duration ?? defaults.durationSeconds,
+      generateAudio: spec.audio ?? defaults.generateAudio,
+    },
+  };
+};
+
+// `ep1.mp4` for a single video, `ep1-1.mp4`, `ep1-2.mp4`, ... for candidates.
+export const candidatePath = (out: string, index: number, count: number): string => {
+  if (count === 1) return out;
+  const extension = path.extname(out);
+  return `${out.slice(0, out.length - extension.length)}-${index + 1}${extension}`;
+};
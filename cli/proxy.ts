@@ -0,0 +1,86 @@
+import { createServer } from 'node:http';
+import type { IncomingMessage, Server, ServerResponse } from 'node:http';
+import { Readable } from 'node:stream';
+import type { ReadableStream } from 'node:stream/web';
+
+const API_ORIGIN = 'https://generativelanguage.googleapis.com';
+
+// Headers that describe the hop to the proxy rather than the request itself.
+// fetch decompresses responses, so their encoding and length no longer apply.
+const DROPPED_REQUEST_HEADERS = ['host', 'connection', 'content-length', 'origin', 'referer', 'x-goog-api-key', 'accept-encoding'];
+const DROPPED_RESPONSE_HEADERS = ['connection', 'content-encoding', 'content-length', 'transfer-encoding', 'access-control-allow-origin'];
+
+export interface ProxyOptions {
+  apiKey: string;
+  port: number;
+  // Anyone who can reach this address spends the key, so keep it on loopback
+  // unless the network is trusted.
+  host: string;
+  // The app's origin, allowed to call the proxy from the browser.
+  allowOrigin: string;
+}
+
+const readBody = async (request: IncomingMessage): Promise<Buffer | undefined> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of request) chunks.push(chunk as Buffer);
+  return chunks.length > 0 ? Buffer.concat(chunks) : undefined;
+};
+
+const forward = async (request: IncomingMessage, response: ServerResponse, apiKey: string) => {
+  const url = new URL(request.url ?? '/', API_ORIGIN);
+  // The key is added here, so any key the browser sent is dropped.
+  url.searchParams.delete('key');
+
+  const headers = new Headers();
+  for (const [name, value] of Object.entries(request.headers)) {
+    if (value === undefined || DROPPED_REQUEST_HEADERS.includes(name)) continue;
+    headers.set(name, Array.isArray(value) ? value.join(', ') : value);
+  }
+  headers.set('x-goog-api-key', apiKey);
+
+  const upstream = await fetch(url, {
+    method: request.method,
+    headers,
+    body: request.method === 'GET' || request.method === 'HEAD' ? undefined : await readBody(request),
+  });
+
+  upstream.headers.forEach((value, name) => {
+    if (!DROPPED_RESPONSE_HEADERS.includes(name)) response.setHeader(name, value);
+  });
+  response.writeHead(upstream.status);
+  if (upstream.body) {
+    Readable.fromWeb(upstream.body as ReadableStream<Uint8Array>).pipe(response);
+  } else {
+    response.end();
+  }
+};
+
+// A small pass-through to the Gemini API that keeps the key on this machine.
+// Point the app at it with API_PROXY_URL or on its key screen.
+export const startProxy = ({ apiKey, port, host, allowOrigin }: ProxyOptions): Promise<Server> => {
+  const server = createServer((request, response) => {
+    response.setHeader('Access-Control-Allow-Origin', allowOrigin);
+    response.setHeader('Vary', 'Origin');
+    if (request.method === 'OPTIONS') {
+      response.setHeader('Access-Control-Allow-Methods', 'GET, POST, PATCH, DELETE, OPTIONS');
+      response.setHeader('Access-Control-Allow-Headers', request.headers['access-control-request-headers'] ?? '*');
+      response.setHeader('Access-Control-Max-Age', '86400');
+      response.writeHead(204).end();
+      return;
+    }
+    forward(request, response, apiKey).catch(e => {
+      console.error(`${request.method} ${request.url} failed:`, e?.message ?? e);
+      if (response.headersSent) {
+        response.destroy();
+        return;
+      }
+      response.writeHead(502, { 'Content-Type': 'application/json' });
+      response.end(JSON.stringify({ error: { code: 502, message: 'The proxy could not reach the Gemini API.', status: 'UNAVAILABLE' } }));
+    });
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, host, () => resolve(server));
+  });
+};
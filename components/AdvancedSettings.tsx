@@ -0,0 +1,177 @@
+import React, { useState } from 'react';
+import type { GenerationOptions, VideoModelCapabilities, VideoResolution } from '../types';
+import { MAX_SEED, randomSeed } from '../services/generationOptions';
+
+interface AdvancedSettingsProps {
+    options: GenerationOptions;
+    models: VideoModelCapabilities[];
+    errors: string[];
+    onChange: (options: GenerationOptions) => void;
+}
+
+const inputClassName = "p-2 bg-gray-900 border border-gray-600 rounded-md focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500";
+
+export const AdvancedSettings: React.FC<AdvancedSettingsProps> = ({ options, models, errors, onChange }) => {
+    const [isOpen, setIsOpen] = useState<boolean>(false);
+    const model = models.find(candidate => candidate.id === options.model);
+
+    const update = (changes: Partial<GenerationOptions>) => onChange({ ...options, ...changes });
+
+    // Keep the other settings within what the newly chosen model allows.
+    const selectModel = (id: string) => {
+        const next = models.find(candidate => candidate.id === id);
+        if (!next) return;
+        update({
+            model: id,
+            resolution: next.resolutions.includes(options.resolution) ? options.resolution : next.resolutions[0],
+            durationSeconds: options.durationSeconds !== null && next.durations.includes(options.durationSeconds) ? options.durationSeconds : null,
+            numberOfVideos: Math.min(options.numberOfVideos, next.maxVideos),
+            seed: next.supportsSeed ? options.seed : null,
+            generateAudio: next.supportsAudio && options.generateAudio,
+        });
+    };
+
+    const selectResolution = (resolution: VideoResolution) => {
+        // 1080p is tied to specific clip lengths on some models; pick the first one for the user.
+        const fullHdDurations = model?.fullHdDurations;
+        const needsDuration = resolution === '1080p' && fullHdDurations
+            && (options.durationSeconds === null || !fullHdDurations.includes(options.durationSeconds));
+        update({ resolution, durationSeconds: needsDuration ? fullHdDurations[0] : options.durationSeconds });
+    };
+
+    const summary = [
+        model?.label ?? options.model,
+        options.resolution,
+        options.durationSeconds !== null ? `${options.durationSeconds}s` : null,
+        options.numberOfVideos > 1 ? `${options.numberOfVideos} candidates` : null,
+        options.seed !== null ? `seed ${options.seed}` : null,
+    ].filter(Boolean).join(' · ');
+
+    return (
+        <div className="bg-gray-800 border border-gray-700 p-6 rounded-2xl shadow-lg">
+            <button onClick={() => setIsOpen(open => !open)} className="w-full flex items-center justify-between gap-4 text-left" aria-expanded={isOpen}>
+                <span>
+                    <span className="block text-2xl font-semibold text-indigo-300">Advanced Settings</span>
+                    <span className="block text-sm text-gray-400 mt-1">{summary}</span>
+                </span>
+                <span className="text-indigo-400 font-semibold text-sm shrink-0">{isOpen ? 'Hide' : 'Show'}</span>
+            </button>
+
+            {isOpen && (
+                <div className="mt-4 space-y-4 border-t border-gray-700 pt-4 text-sm">
+                    <p className="text-gray-400">These settings apply to single videos, batches and storyboards alike.</p>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                        <label className="flex flex-col gap-1">
+                            <span className="text-gray-400">Model</span>
+                            <select value={options.model} onChange={(e) => selectModel(e.target.value)} className={inputClassName}>
+                                {models.map(candidate => (
+                                    <option key={candidate.id} value={candidate.id}>
+                                        {candidate.label} ({candidate.tier === 'fast' ? 'faster, cheaper' : 'higher quality'})
+                                    </option>
+                                ))}
+                            </select>
+                        </label>
+
+                        <div className="flex flex-col gap-1">
+                            <span className="text-gray-400">Resolution</span>
+                            <div className="flex gap-2">
+                                {(['720p', '1080p'] as const).map(resolution => (
+                                    <button
+                                        key={resolution}
+                                        onClick={() => selectResolution(resolution)}
+                                        disabled={!model?.resolutions.includes(resolution)}
+                                        className={`flex-1 py-2 rounded-md border transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${options.resolution === resolution ? 'border-indigo-500 bg-indigo-900/60 text-white' : 'border-gray-600 text-gray-300 hover:border-indigo-500'}`}
+                                    >
+                                        {resolution}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+
+                        <label className="flex flex-col gap-1">
+                            <span className="text-gray-400">Duration</span>
+                            <select
+                                value={options.durationSeconds ?? ''}
+                                onChange={(e) => update({ durationSeconds: e.target.value ? Number(e.target.value) : null })}
+                                className={inputClassName}
+                            >
+                                <option value="">Model default</option>
+                                {model?.durations.map(duration => <option key={duration} value={duration}>{duration} seconds</option>)}
+                            </select>
+                        </label>
+
+                        <label className="flex flex-col gap-1">
+                            <span className="text-gray-400">Candidate videos</span>
+                            <select
+                                value={options.numberOfVideos}
+                                onChange={(e) => update({ numberOfVideos: Number(e.target.value) })}
+                                disabled={!model || model.maxVideos === 1}
+                                className={`${inputClassName} disabled:opacity-50`}
+                            >
+                                {Array.from({ length: model?.maxVideos ?? 1 }, (_, i) => i + 1).map(count => (
+                                    <option key={count} value={count}>{count}</option>
+                                ))}
+                            </select>
+                        </label>
+
+                        <div className="flex flex-col gap-1">
+                            <span className="text-gray-400">Seed {!model?.supportsSeed && <span className="text-gray-500">(not supported by this model)</span>}</span>
+                            <div className="flex gap-2">
+                                <input
+                                    type="number"
+                                    min={0}
+                                    max={MAX_SEED}
+                                    step={1}
+                                    value={options.seed ?? ''}
+                                    onChange={(e) => update({ seed: e.target.value === '' ? null : Number(e.target.value) })}
+                                    disabled={!model?.supportsSeed}
+                                    placeholder="Random"
+                                    className={`flex-1 min-w-0 ${inputClassName} disabled:opacity-50`}
+                                />
+                                <button
+                                    onClick={() => update({ seed: randomSeed() })}
+                                    disabled={!model?.supportsSeed}
+                                    className="font-semibold px-3 rounded-md bg-gray-700 hover:bg-gray-600 disabled:opacity-50 transition-colors"
+                                >
+                                    Randomize
+                                </button>
+                            </div>
+                        </div>
+
+                        <label className="flex items-center gap-2 sm:mt-6">
+                            <input
+                                type="checkbox"
+                                checked={Boolean(model?.supportsAudio) && options.generateAudio}
+                                onChange={(e) => update({ generateAudio: e.target.checked })}
+                                disabled={!model?.supportsAudio}
+                                className="accent-indigo-500"
+                            />
+                            <span className={model?.supportsAudio ? 'text-gray-300' : 'text-gray-500'}>
+                                Generate audio{!model?.supportsAudio && ' (not supported by this model)'}
+                            </span>
+                        </label>
+                    </div>
+
+                    <label className="flex flex-col gap-1">
+                        <span className="text-gray-400">Negative prompt</span>
+                        <input
+                            type="text"
+                            value={options.negativePrompt}
+                            onChange={(e) => update({ negativePrompt: e.target.value })}
+                            placeholder="e.g., text, watermarks, blurry footage"
+                            className={inputClassName}
+                        />
+                    </label>
+
+                    <p className="text-xs text-gray-500">Use the same seed, prompt, image and settings to reproduce a render.</p>
+                </div>
+            )}
+
+            {errors.length > 0 && (
+                <ul className="mt-4 space-y-1 text-sm text-yellow-400">
+                    {errors.map(error => <li key={error}>{error}</li>)}
+                </ul>
+            )}
+        </div>
+    );
+};
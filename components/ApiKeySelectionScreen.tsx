@@ -0,0 +1,138 @@
+import React, { useState } from 'react';
+import type { Credentials } from '../types';
+import { ErrorNotice } from './ErrorNotice';
+import { classifyError } from '../services/errors';
+import type { GenerationError } from '../services/errors';
+import { getSavedProxyUrl, hasAIStudioBridge, saveApiKey, saveProxyUrl, selectAIStudioKey } from '../services/credentials';
+import type { KeyPersistence } from '../services/credentials';
+import { getVideoProvider } from '../services/providers';
+
+interface ApiKeySelectionScreenProps {
+    error?: string | GenerationError | null;
+    onReady: () => void;
+}
+
+const inputClassName = "w-full p-2 bg-gray-900 border border-gray-600 rounded-md focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500";
+
+export const ApiKeySelectionScreen: React.FC<ApiKeySelectionScreenProps> = ({ error, onReady }) => {
+    const [apiKey, setApiKey] = useState<string>('');
+    const [persistence, setPersistence] = useState<KeyPersistence>('session');
+    const [proxyUrl, setProxyUrl] = useState<string>(getSavedProxyUrl);
+    const [checking, setChecking] = useState<'key' | 'proxy' | null>(null);
+    const [checkError, setCheckError] = useState<string | GenerationError | null>(null);
+
+    // Keys are checked against the API before anything is saved.
+    const verify = async (kind: 'key' | 'proxy', credentials: Credentials, save: () => void) => {
+        setChecking(kind);
+        setCheckError(null);
+        try {
+            await getVideoProvider().verifyCredentials?.(credentials);
+            save();
+            onReady();
+        } catch (e) {
+            console.error("Could not verify credentials", e);
+            setCheckError(classifyError(e));
+        } finally {
+            setChecking(null);
+        }
+    };
+
+    const handleSelectAIStudioKey = async () => {
+        try {
+            await selectAIStudioKey();
+            onReady();
+        } catch (e) {
+            console.error("Could not open API key selection", e);
+            setCheckError("There was an issue with the API key selection dialog.");
+        }
+    };
+
+    const handleUseKey = (event: React.FormEvent) => {
+        event.preventDefault();
+        verify('key', { apiKey: apiKey.trim() }, () => saveApiKey(apiKey, persistence));
+    };
+
+    const handleUseProxy = (event: React.FormEvent) => {
+        event.preventDefault();
+        verify('proxy', { baseUrl: proxyUrl.trim().replace(/\/+$/, '') }, () => saveProxyUrl(proxyUrl));
+    };
+
+    const shownError = checkError ?? error;
+
+    return (
+        <div className="flex items-center justify-center min-h-screen p-4">
+            <div className="max-w-md w-full bg-gray-800 p-8 rounded-2xl shadow-lg border border-gray-700 space-y-6">
+                <div className="text-center">
+                    <h1 className="text-3xl font-bold text-indigo-400 mb-4">Welcome!</h1>
+                    <p className="text-gray-300">To generate videos with the Veo model, you need a Gemini API key. Choose how the app should get one.</p>
+                </div>
+                {shownError && <ErrorNotice error={shownError} />}
+
+                {hasAIStudioBridge() && (
+                    <button
+                        onClick={handleSelectAIStudioKey}
+                        className="w-full text-lg font-bold py-3 px-6 rounded-lg bg-gradient-to-r from-indigo-600 to-purple-600 hover:from-indigo-500 hover:to-purple-500 transition-all duration-300 transform hover:scale-105"
+                    >
+                        Select API Key
+                    </button>
+                )}
+
+                <form onSubmit={handleUseKey} className="space-y-3">
+                    <h2 className="font-semibold text-indigo-300">Enter an API key</h2>
+                    <input
+                        type="password"
+                        value={apiKey}
+                        onChange={(e) => setApiKey(e.target.value)}
+                        placeholder="Gemini API key"
+                        autoComplete="off"
+                        className={inputClassName}
+                    />
+                    <div className="flex gap-4 text-sm text-gray-300">
+                        <label className="flex items-center gap-2">
+                            <input type="radio" checked={persistence === 'session'} onChange={() => setPersistence('session')} className="accent-indigo-500" />
+                            This session only
+                        </label>
+                        <label className="flex items-center gap-2">
+                            <input type="radio" checked={persistence === 'local'} onChange={() => setPersistence('local')} className="accent-indigo-500" />
+                            Remember on this device
+                        </label>
+                    </div>
+                    <button
+                        type="submit"
+                        disabled={!apiKey.trim() || checking !== null}
+                        className="w-full font-semibold py-2 rounded-md bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                    >
+                        {checking === 'key' ? 'Checking key...' : 'Check and use key'}
+                    </button>
+                    <p className="text-xs text-gray-500">The key is stored in this browser only and sent straight to Google. You can forget it at any time.</p>
+                </form>
+
+                <form onSubmit={handleUseProxy} className="space-y-3 border-t border-gray-700 pt-6">
+                    <h2 className="font-semibold text-indigo-300">Or use an API proxy</h2>
+                    <input
+                        type="url"
+                        value={proxyUrl}
+                        onChange={(e) => setProxyUrl(e.target.value)}
+                        placeholder="http://localhost:8787"
+                        className={inputClassName}
+                    />
+                    <button
+                        type="submit"
+                        disabled={!proxyUrl.trim() || checking !== null}
+                        className="w-full font-semibold py-2 rounded-md bg-gray-700 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                    >
+                        {checking === 'proxy' ? 'Checking proxy...' : 'Check and use proxy'}
+                    </button>
+                    <p className="text-xs text-gray-500">The proxy adds the key on the server, so it never reaches the browser. Run one with <code className="text-gray-400">robo-intro proxy</code>.</p>
+                </form>
+
+                <p className="text-xs text-gray-500 text-center">
+                    For more information on billing, please visit the{' '}
+                    <a href="https://ai.google.dev/gemini-api/docs/billing" target="_blank" rel="noopener noreferrer" className="text-indigo-400 hover:underline">
+                        official documentation
+                    </a>.
+                </p>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,216 @@
+import React, { useRef, useState } from 'react';
+import type { AspectRatio, BatchItem, BatchItemStatus, ImageFile } from '../types';
+import { ERROR_GUIDANCE, RANDOM_PROMPTS } from '../constants';
+import { prepareImageFile } from '../services/imagePrep';
+import { exportBatchZip } from '../services/batchExport';
+import { downloadBlob } from '../services/download';
+import { MAX_BATCH_CONCURRENCY } from '../hooks/useBatchQueue';
+
+interface BatchPanelProps {
+    items: BatchItem[];
+    concurrency: number;
+    onConcurrencyChange: (concurrency: number) => void;
+    onEnqueue: (images: ImageFile[], prompts: string[], aspectRatios: AspectRatio[]) => void;
+    onRetry: (id: string) => void;
+    onCancel: (id: string) => void;
+    onClearFinished: () => void;
+}
+
+const ASPECT_RATIOS: AspectRatio[] = ['16:9', '9:16'];
+
+const STATUS_STYLES: Record<BatchItemStatus, string> = {
+    queued: 'text-gray-400',
+    running: 'text-indigo-300',
+    succeeded: 'text-green-400',
+    failed: 'text-red-400',
+    cancelled: 'text-yellow-400',
+};
+
+export const BatchPanel: React.FC<BatchPanelProps> = ({
+    items,
+    concurrency,
+    onConcurrencyChange,
+    onEnqueue,
+    onRetry,
+    onCancel,
+    onClearFinished,
+}) => {
+    const [images, setImages] = useState<ImageFile[]>([]);
+    const [promptText, setPromptText] = useState<string>('');
+    const [aspectRatios, setAspectRatios] = useState<AspectRatio[]>(['16:9']);
+    const [isExporting, setIsExporting] = useState<boolean>(false);
+    const [exportError, setExportError] = useState<string | null>(null);
+    const [uploadErrors, setUploadErrors] = useState<string[]>([]);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const prompts = promptText.split('\n').map(line => line.trim()).filter(Boolean);
+    const jobCount = images.length * Math.max(prompts.length, 1) * aspectRatios.length;
+    const isFinished = items.length > 0 && items.every(item => item.status !== 'queued' && item.status !== 'running');
+    const succeededCount = items.filter(item => item.status === 'succeeded').length;
+
+    const handleFilesChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const files: File[] = event.target.files ? Array.from(event.target.files) : [];
+        event.target.value = '';
+        // Each image is cropped to the item's aspect ratio when it runs.
+        const results = await Promise.allSettled(files.map(prepareImageFile));
+        const loaded: ImageFile[] = [];
+        const errors: string[] = [];
+        results.forEach(result => {
+            if (result.status === 'fulfilled') loaded.push(result.value);
+            else errors.push(result.reason?.message ?? String(result.reason));
+        });
+        setImages(prev => [...prev, ...loaded]);
+        setUploadErrors(errors);
+    };
+
+    const toggleAspectRatio = (ratio: AspectRatio) => {
+        setAspectRatios(prev => (prev.includes(ratio) ? prev.filter(r => r !== ratio) : [...prev, ratio]));
+    };
+
+    const handleEnqueue = () => {
+        const batchPrompts = prompts.length > 0
+            ? prompts
+            : [RANDOM_PROMPTS[Math.floor(Math.random() * RANDOM_PROMPTS.length)]];
+        onEnqueue(images, batchPrompts, aspectRatios);
+    };
+
+    const handleExport = async () => {
+        setIsExporting(true);
+        setExportError(null);
+        try {
+            downloadBlob(await exportBatchZip(items), `robo-ai-batch-${Date.now()}.zip`);
+        } catch (e: any) {
+            console.error("Could not export batch", e);
+            setExportError(e?.message || "Could not build the ZIP.");
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    return (
+        <div className="space-y-8">
+            <div className="bg-gray-800 border border-gray-700 p-6 rounded-2xl shadow-lg space-y-6">
+                <h2 className="text-2xl font-semibold text-indigo-300">Batch Setup</h2>
+
+                <div>
+                    <h3 className="font-semibold mb-2">Images</h3>
+                    <input type="file" accept="image/*,.heic,.heif" multiple ref={fileInputRef} onChange={handleFilesChange} className="hidden" />
+                    <div className="flex flex-wrap gap-3">
+                        {images.map(image => (
+                            <div key={image.id} className="relative">
+                                <img src={image.dataUrl} alt={image.name} title={image.name} className="h-20 rounded-md shadow-md" />
+                                <button
+                                    onClick={() => setImages(prev => prev.filter(i => i.id !== image.id))}
+                                    className="absolute -top-2 -right-2 bg-red-600 text-white rounded-full p-1 hover:bg-red-500"
+                                    aria-label={`Remove ${image.name}`}
+                                >
+                                    <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" /></svg>
+                                </button>
+                            </div>
+                        ))}
+                        <button
+                            onClick={() => fileInputRef.current?.click()}
+                            className="h-20 px-4 border-2 border-dashed border-gray-600 rounded-md text-gray-400 hover:border-indigo-500 hover:text-indigo-300 transition-colors"
+                        >
+                            + Add images
+                        </button>
+                    </div>
+                    {uploadErrors.length > 0 && (
+                        <ul className="mt-2 space-y-1 text-sm text-red-400">
+                            {uploadErrors.map(message => <li key={message}>{message}</li>)}
+                        </ul>
+                    )}
+                </div>
+
+                <div>
+                    <h3 className="font-semibold mb-2">Prompts <span className="text-sm text-gray-400 font-normal">(one per line)</span></h3>
+                    <textarea
+                        value={promptText}
+                        onChange={(e) => setPromptText(e.target.value)}
+                        placeholder={"An epic cinematic intro for episode one...\nA moody noir opening for episode two..."}
+                        className="w-full h-28 p-3 bg-gray-900 border border-gray-600 rounded-md focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors"
+                    />
+                    <p className="text-sm text-gray-400 mt-1">Leave blank to use one random prompt for every image.</p>
+                </div>
+
+                <div className="flex flex-wrap items-center gap-6">
+                    <div className="flex items-center gap-4">
+                        <h3 className="font-semibold">Aspect ratios</h3>
+                        {ASPECT_RATIOS.map(ratio => (
+                            <label key={ratio} className="flex items-center gap-2 cursor-pointer">
+                                <input type="checkbox" checked={aspectRatios.includes(ratio)} onChange={() => toggleAspectRatio(ratio)} className="accent-indigo-500" />
+                                {ratio}
+                            </label>
+                        ))}
+                    </div>
+                    <label className="flex items-center gap-2">
+                        <span className="font-semibold">Run at once</span>
+                        <input
+                            type="number"
+                            min={1}
+                            max={MAX_BATCH_CONCURRENCY}
+                            value={concurrency}
+                            onChange={(e) => onConcurrencyChange(Math.min(MAX_BATCH_CONCURRENCY, Math.max(1, Number(e.target.value) || 1)))}
+                            className="w-16 p-1 bg-gray-900 border border-gray-600 rounded-md text-center"
+                        />
+                    </label>
+                </div>
+
+                <button
+                    onClick={handleEnqueue}
+                    disabled={jobCount === 0}
+                    className="w-full text-lg font-bold py-3 px-6 rounded-lg bg-gradient-to-r from-indigo-600 to-purple-600 hover:from-indigo-500 hover:to-purple-500 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-300"
+                >
+                    Queue {jobCount} {jobCount === 1 ? 'Video' : 'Videos'}
+                </button>
+            </div>
+
+            {items.length > 0 && (
+                <div className="bg-gray-800 border border-gray-700 p-6 rounded-2xl shadow-lg">
+                    <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+                        <h2 className="text-2xl font-semibold text-indigo-300">Queue</h2>
+                        <div className="flex gap-2 text-sm font-semibold">
+                            <button onClick={onClearFinished} className="py-1.5 px-4 rounded-md bg-gray-700 hover:bg-gray-600 transition-colors">
+                                Clear finished
+                            </button>
+                            <button
+                                onClick={handleExport}
+                                disabled={!isFinished || succeededCount === 0 || isExporting}
+                                className="py-1.5 px-4 rounded-md bg-green-600 hover:bg-green-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                            >
+                                {isExporting ? 'Exporting...' : 'Download ZIP'}
+                            </button>
+                        </div>
+                    </div>
+                    {exportError && <p className="text-sm text-red-400 text-right -mt-2 mb-4">{exportError}</p>}
+                    <ul className="space-y-3">
+                        {items.map(item => (
+                            <li key={item.id} className="flex items-center gap-4 bg-gray-900 border border-gray-700 rounded-lg p-3">
+                                <img src={item.image.dataUrl} alt={item.image.name} className="h-12 w-12 object-cover rounded" />
+                                <div className="flex-1 min-w-0">
+                                    <p className="text-sm text-gray-300 truncate" title={item.prompt}>{item.prompt}</p>
+                                    <p className="text-xs text-gray-500">
+                                        {item.image.name} &middot; {item.aspectRatio} &middot;{' '}
+                                        <span className={STATUS_STYLES[item.status]} title={item.errorKind && ERROR_GUIDANCE[item.errorKind].guidance}>
+                                            {item.errorKind ? `${ERROR_GUIDANCE[item.errorKind].title}: ` : ''}{item.error ?? item.progress}
+                                        </span>
+                                    </p>
+                                </div>
+                                {(item.status === 'failed' || item.status === 'cancelled') && (
+                                    <button onClick={() => onRetry(item.id)} className="text-sm font-semibold py-1.5 px-4 rounded-md bg-indigo-600 hover:bg-indigo-500 transition-colors">
+                                        Retry
+                                    </button>
+                                )}
+                                {(item.status === 'queued' || item.status === 'running') && (
+                                    <button onClick={() => onCancel(item.id)} className="text-sm font-semibold py-1.5 px-4 rounded-md bg-red-600 hover:bg-red-500 transition-colors">
+                                        Cancel
+                                    </button>
+                                )}
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,32 @@
+import React from 'react';
+import type { HistoryEntry } from '../types';
+import { useObjectUrl } from '../hooks/useObjectUrl';
+
+interface CandidatePickerProps {
+    candidates: HistoryEntry[];
+    onPick: (entry: HistoryEntry) => void;
+}
+
+const Candidate: React.FC<{ entry: HistoryEntry; index: number; onPick: () => void }> = ({ entry, index, onPick }) => {
+    const videoUrl = useObjectUrl(entry.video);
+    return (
+        <li className="bg-gray-900 border border-gray-700 rounded-lg overflow-hidden flex flex-col">
+            <video src={videoUrl} controls muted loop preload="metadata" className="w-full h-48 object-contain bg-black" />
+            <button onClick={onPick} className="m-3 py-2 rounded-md font-semibold bg-indigo-600 hover:bg-indigo-500 transition-colors">
+                Use take {index + 1}
+            </button>
+        </li>
+    );
+};
+
+export const CandidatePicker: React.FC<CandidatePickerProps> = ({ candidates, onPick }) => (
+    <div className="bg-gray-800 border border-gray-700 p-6 rounded-2xl shadow-lg">
+        <h2 className="text-2xl font-semibold mb-2 text-indigo-300">Pick Your Favorite Take</h2>
+        <p className="text-sm text-gray-400 mb-4">The AI made {candidates.length} versions. Every take is saved to your history; choose one to brand and download.</p>
+        <ul className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            {candidates.map((entry, index) => (
+                <Candidate key={entry.id} entry={entry} index={index} onPick={() => onPick(entry)} />
+            ))}
+        </ul>
+    </div>
+);
@@ -0,0 +1,285 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { ClipEdit } from '../types';
+import {
+    DEFAULT_CLIP_EDIT,
+    PLAYBACK_RATES,
+    QUICK_TRIM_SECONDS,
+    capturePosterFrame,
+    clampClipEdit,
+    clipEnd,
+    editedDuration,
+    isClipEdited,
+    trimClip,
+} from '../services/clipEditor';
+import { extractThumbnails } from '../services/videoRecording';
+import { downloadBlob, videoExtension } from '../services/download';
+import { useObjectUrl } from '../hooks/useObjectUrl';
+
+interface ClipEditorProps {
+    video: Blob;
+    // The result card's player, which previews the edit.
+    videoRef: React.RefObject<HTMLVideoElement>;
+    edit: ClipEdit;
+    onChange: (edit: ClipEdit) => void;
+    buildFilename: (extension: string, suffix?: string) => string;
+}
+
+const THUMBNAIL_COUNT = 10;
+const THUMBNAIL_HEIGHT = 64;
+
+type DragTarget = 'start' | 'end' | 'playhead';
+
+const formatSeconds = (seconds: number) => `${seconds.toFixed(2)}s`;
+
+const PosterPreview: React.FC<{ poster: Blob; time: number; onDownload: () => void }> = ({ poster, time, onDownload }) => {
+    const url = useObjectUrl(poster);
+    return (
+        <div className="flex items-center gap-4">
+            <img src={url} alt="Poster frame" className="h-16 rounded border border-gray-600" />
+            <span className="text-gray-400">Frame at {formatSeconds(time)}</span>
+            <button onClick={onDownload} className="ml-auto font-semibold py-1.5 px-4 rounded-md bg-green-600 hover:bg-green-500 transition-colors">
+                Download PNG
+            </button>
+        </div>
+    );
+};
+
+export const ClipEditor: React.FC<ClipEditorProps> = ({ video, videoRef, edit, onChange, buildFilename }) => {
+    const [duration, setDuration] = useState<number>(0);
+    const [currentTime, setCurrentTime] = useState<number>(0);
+    const [thumbnails, setThumbnails] = useState<{ time: number; dataUrl: string }[]>([]);
+    const [poster, setPoster] = useState<{ time: number; image: Blob } | null>(null);
+    const [trimProgress, setTrimProgress] = useState<number | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const stripRef = useRef<HTMLDivElement>(null);
+    const dragTarget = useRef<DragTarget | null>(null);
+    const trimController = useRef<AbortController | null>(null);
+    const editRef = useRef(edit);
+    editRef.current = edit;
+
+    useEffect(() => () => trimController.current?.abort(), []);
+
+    useEffect(() => {
+        let cancelled = false;
+        setThumbnails([]);
+        extractThumbnails(video, THUMBNAIL_COUNT, THUMBNAIL_HEIGHT)
+            .then(frames => { if (!cancelled) setThumbnails(frames); })
+            .catch(e => console.error("Could not build the frame strip", e));
+        return () => { cancelled = true; };
+    }, [video]);
+
+    useEffect(() => {
+        const player = videoRef.current;
+        if (!player) return;
+        const updateDuration = () => setDuration(Number.isFinite(player.duration) ? player.duration : 0);
+        updateDuration();
+        // WebM recordings only learn their duration once the player has seen the end.
+        player.addEventListener('loadedmetadata', updateDuration);
+        player.addEventListener('durationchange', updateDuration);
+        return () => {
+            player.removeEventListener('loadedmetadata', updateDuration);
+            player.removeEventListener('durationchange', updateDuration);
+        };
+    }, [videoRef, video]);
+
+    useEffect(() => {
+        const player = videoRef.current;
+        if (!player) return;
+        player.playbackRate = edit.playbackRate;
+        player.defaultPlaybackRate = edit.playbackRate;
+    }, [videoRef, edit.playbackRate]);
+
+    // Track the playhead and loop the preview between the in and out points.
+    // State only changes when the playhead moves, so a paused player doesn't re-render.
+    useEffect(() => {
+        let frame: number;
+        let lastTime = -1;
+        const tick = () => {
+            const player = videoRef.current;
+            if (player && player.duration) {
+                const { start } = editRef.current;
+                const end = clipEnd(editRef.current, player.duration);
+                if (!player.paused && !dragTarget.current && (player.currentTime >= end || player.currentTime < start)) {
+                    player.currentTime = start;
+                }
+                if (player.currentTime !== lastTime) {
+                    lastTime = player.currentTime;
+                    setCurrentTime(lastTime);
+                }
+            }
+            frame = requestAnimationFrame(tick);
+        };
+        tick();
+        return () => cancelAnimationFrame(frame);
+    }, [videoRef]);
+
+    const seek = (time: number) => {
+        if (videoRef.current) videoRef.current.currentTime = time;
+    };
+
+    const timeAt = (clientX: number): number => {
+        const strip = stripRef.current;
+        if (!strip || !duration) return 0;
+        const rect = strip.getBoundingClientRect();
+        return Math.min(1, Math.max(0, (clientX - rect.left) / rect.width)) * duration;
+    };
+
+    const applyDrag = (target: DragTarget, time: number) => {
+        if (target === 'playhead') {
+            seek(time);
+            return;
+        }
+        const next = clampClipEdit(target === 'start' ? { ...edit, start: time } : { ...edit, end: time }, duration);
+        onChange(next);
+        seek(target === 'start' ? next.start : clipEnd(next, duration));
+    };
+
+    const handlePointerDown = (target: DragTarget) => (event: React.PointerEvent<HTMLDivElement>) => {
+        event.stopPropagation();
+        stripRef.current?.setPointerCapture(event.pointerId);
+        dragTarget.current = target;
+        applyDrag(target, timeAt(event.clientX));
+    };
+
+    const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+        if (dragTarget.current) applyDrag(dragTarget.current, timeAt(event.clientX));
+    };
+
+    const handlePointerUp = () => {
+        dragTarget.current = null;
+    };
+
+    const handleQuickTrim = () => {
+        onChange(clampClipEdit({ ...edit, start: QUICK_TRIM_SECONDS, end: duration - QUICK_TRIM_SECONDS }, duration));
+    };
+
+    const handleCapturePoster = async () => {
+        const time = currentTime;
+        setError(null);
+        try {
+            setPoster({ time, image: await capturePosterFrame(video, time) });
+        } catch (e: any) {
+            console.error(e);
+            setError(e.message || "Could not capture the frame.");
+        }
+    };
+
+    const handleExportTrim = async () => {
+        const controller = new AbortController();
+        trimController.current = controller;
+        setError(null);
+        setTrimProgress(0);
+        try {
+            const trimmed = await trimClip(video, edit, { signal: controller.signal, onProgress: setTrimProgress });
+            downloadBlob(trimmed, buildFilename(videoExtension(trimmed.type), 'trimmed'));
+        } catch (e: any) {
+            if (!controller.signal.aborted) {
+                console.error(e);
+                setError(e.message || "Could not re-encode the clip.");
+            }
+        } finally {
+            trimController.current = null;
+            setTrimProgress(null);
+        }
+    };
+
+    const end = clipEnd(edit, duration);
+    const percent = (time: number) => `${duration ? (time / duration) * 100 : 0}%`;
+    const isTrimming = trimProgress !== null;
+
+    return (
+        <div className="space-y-4 text-sm">
+            <div className="flex items-center justify-between gap-4">
+                <h3 className="text-xl font-semibold text-indigo-300">Trim &amp; Poster</h3>
+                <span className="text-gray-400">
+                    In {formatSeconds(edit.start)} &middot; Out {formatSeconds(end)} &middot; Output {formatSeconds(editedDuration(edit, duration))}
+                </span>
+            </div>
+
+            <div
+                ref={stripRef}
+                onPointerDown={handlePointerDown('playhead')}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={handlePointerUp}
+                className="relative h-16 bg-gray-900 rounded-md overflow-hidden select-none touch-none cursor-pointer flex"
+            >
+                {thumbnails.map(thumbnail => (
+                    <img key={thumbnail.time} src={thumbnail.dataUrl} alt="" draggable={false} className="h-full flex-1 min-w-0 object-cover" />
+                ))}
+                <div className="absolute inset-y-0 left-0 bg-gray-900/75" style={{ width: percent(edit.start) }} />
+                <div className="absolute inset-y-0 right-0 bg-gray-900/75" style={{ left: percent(end) }} />
+                <div className="absolute inset-y-0 w-0.5 bg-white pointer-events-none" style={{ left: percent(currentTime) }} />
+                {(['start', 'end'] as const).map(handle => (
+                    <div
+                        key={handle}
+                        onPointerDown={handlePointerDown(handle)}
+                        className="absolute inset-y-0 w-3 -ml-1.5 bg-indigo-500 hover:bg-indigo-400 cursor-ew-resize rounded-sm"
+                        style={{ left: percent(handle === 'start' ? edit.start : end) }}
+                        aria-label={handle === 'start' ? 'In point' : 'Out point'}
+                    />
+                ))}
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2">
+                <button onClick={handleQuickTrim} disabled={!duration} className="font-semibold py-1.5 px-3 rounded-md bg-gray-700 hover:bg-gray-600 disabled:opacity-50 transition-colors">
+                    Trim {QUICK_TRIM_SECONDS}s from both ends
+                </button>
+                <button onClick={() => onChange(clampClipEdit({ ...edit, start: currentTime }, duration))} disabled={!duration} className="font-semibold py-1.5 px-3 rounded-md bg-gray-700 hover:bg-gray-600 disabled:opacity-50 transition-colors">
+                    Set in
+                </button>
+                <button onClick={() => onChange(clampClipEdit({ ...edit, end: currentTime }, duration))} disabled={!duration} className="font-semibold py-1.5 px-3 rounded-md bg-gray-700 hover:bg-gray-600 disabled:opacity-50 transition-colors">
+                    Set out
+                </button>
+                <label className="flex items-center gap-2 ml-auto">
+                    <span className="text-gray-400">Speed</span>
+                    <select
+                        value={edit.playbackRate}
+                        onChange={(e) => onChange({ ...edit, playbackRate: Number(e.target.value) })}
+                        className="p-1.5 bg-gray-900 border border-gray-600 rounded-md focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                    >
+                        {PLAYBACK_RATES.map(rate => <option key={rate} value={rate}>{rate}&times;</option>)}
+                    </select>
+                </label>
+                <button onClick={() => onChange(DEFAULT_CLIP_EDIT)} disabled={!isClipEdited(edit)} className="font-semibold py-1.5 px-3 rounded-md bg-gray-700 hover:bg-gray-600 disabled:opacity-50 transition-colors">
+                    Reset
+                </button>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2">
+                <button onClick={handleCapturePoster} disabled={!duration} className="font-semibold py-1.5 px-3 rounded-md bg-gray-700 hover:bg-gray-600 disabled:opacity-50 transition-colors">
+                    Use current frame as poster
+                </button>
+                <span className="text-gray-500">Pause on the frame you want, or drag the playhead to it.</span>
+            </div>
+            {poster && (
+                <PosterPreview
+                    poster={poster.image}
+                    time={poster.time}
+                    onDownload={() => downloadBlob(poster.image, buildFilename('png', 'poster'))}
+                />
+            )}
+
+            {isTrimming ? (
+                <div className="flex items-center gap-4">
+                    <div className="flex-1 h-2 bg-gray-700 rounded-full overflow-hidden">
+                        <div className="h-full bg-indigo-500 transition-all" style={{ width: `${Math.round(trimProgress * 100)}%` }} />
+                    </div>
+                    <button onClick={() => trimController.current?.abort()} className="font-semibold py-1.5 px-4 rounded-md bg-red-600 hover:bg-red-500 transition-colors">
+                        Cancel
+                    </button>
+                </div>
+            ) : (
+                <button
+                    onClick={handleExportTrim}
+                    disabled={!isClipEdited(edit) || !duration}
+                    className="w-full py-3 px-6 rounded-lg bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed font-semibold transition-colors"
+                >
+                    Export Trimmed Clip
+                </button>
+            )}
+            <p className="text-xs text-gray-500">The trimmed clip is re-encoded in your browser in real time, so exporting takes as long as the output plays.</p>
+            {error && <p className="text-red-400">{error}</p>}
+        </div>
+    );
+};
@@ -0,0 +1,31 @@
+import React from 'react';
+import { ERROR_GUIDANCE } from '../constants';
+import { GenerationError } from '../services/errors';
+
+interface ErrorNoticeProps {
+    error: string | GenerationError;
+}
+
+export const ErrorNotice: React.FC<ErrorNoticeProps> = ({ error }) => {
+    if (typeof error === 'string') {
+        return (
+            <div className="bg-red-900/50 border border-red-500 text-red-300 p-4 rounded-lg text-center">
+                <strong>Error:</strong> {error}
+            </div>
+        );
+    }
+
+    const { title, guidance } = ERROR_GUIDANCE[error.kind];
+    return (
+        <div className="bg-red-900/50 border border-red-500 text-red-300 p-4 rounded-lg space-y-2" role="alert">
+            <p className="font-semibold text-red-200">{title}</p>
+            <p className="text-sm break-words">{error.message}</p>
+            {error.reasons.length > 1 && (
+                <ul className="text-sm list-disc list-inside">
+                    {error.reasons.map(reason => <li key={reason}>{reason}</li>)}
+                </ul>
+            )}
+            <p className="text-sm text-red-200">{guidance}</p>
+        </div>
+    );
+};
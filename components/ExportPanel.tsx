@@ -0,0 +1,141 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { AspectRatio, ClipEdit } from '../types';
+import { EXPORT_PRESETS } from '../constants';
+import { exportExtension, exportVideo, formatBytes, presetSupports } from '../services/exporter';
+import type { ExportResult } from '../services/exporter';
+import { downloadBlob } from '../services/download';
+import { createZip } from '../services/zip';
+
+interface ExportPanelProps {
+    video: Blob;
+    aspectRatio: AspectRatio;
+    edit: ClipEdit;
+    buildFilename: (extension: string, suffix?: string) => string;
+}
+
+const DEFAULT_SELECTION = ['gif'];
+
+export const ExportPanel: React.FC<ExportPanelProps> = ({ video, aspectRatio, edit, buildFilename }) => {
+    const [selected, setSelected] = useState<string[]>(DEFAULT_SELECTION);
+    const [progress, setProgress] = useState<{ fraction: number; label: string } | null>(null);
+    const [results, setResults] = useState<ExportResult[]>([]);
+    const [error, setError] = useState<string | null>(null);
+    const controller = useRef<AbortController | null>(null);
+
+    useEffect(() => () => controller.current?.abort(), []);
+
+    const presets = EXPORT_PRESETS.filter(preset => selected.includes(preset.id) && presetSupports(preset, aspectRatio));
+
+    const togglePreset = (id: string) => {
+        setSelected(current => current.includes(id) ? current.filter(other => other !== id) : [...current, id]);
+    };
+
+    const filenameFor = (result: ExportResult & { blob: Blob }) =>
+        buildFilename(exportExtension(result.preset, result.blob), result.preset.id);
+
+    const downloadResults = async (finished: ExportResult[]) => {
+        const files = finished.filter((result): result is ExportResult & { blob: Blob } => !!result.blob);
+        if (files.length === 1) {
+            downloadBlob(files[0].blob, filenameFor(files[0]));
+        } else if (files.length > 1) {
+            const zip = await createZip(files.map(result => ({ name: filenameFor(result), data: result.blob })));
+            downloadBlob(zip, buildFilename('zip', 'exports'));
+        }
+    };
+
+    const handleExport = async () => {
+        const current = new AbortController();
+        controller.current = current;
+        setError(null);
+        setResults([]);
+        setProgress({ fraction: 0, label: presets[0].label });
+        try {
+            const finished = await exportVideo(video, presets, {
+                aspectRatio,
+                edit,
+                signal: current.signal,
+                onProgress: (fraction, preset) => setProgress({ fraction, label: preset.label }),
+            });
+            setResults(finished);
+            await downloadResults(finished);
+        } catch (e: any) {
+            if (!current.signal.aborted) {
+                console.error(e);
+                setError(e.message || "Could not export the video.");
+            }
+        } finally {
+            controller.current = null;
+            setProgress(null);
+        }
+    };
+
+    const isExporting = progress !== null;
+
+    return (
+        <div className="space-y-4 text-sm">
+            <h3 className="text-xl font-semibold text-indigo-300">Export Formats</h3>
+            <div className="grid sm:grid-cols-2 gap-2">
+                {EXPORT_PRESETS.map(preset => {
+                    const supported = presetSupports(preset, aspectRatio);
+                    return (
+                        <label
+                            key={preset.id}
+                            className={`flex items-start gap-3 p-3 rounded-md border border-gray-700 bg-gray-900/50 ${supported ? 'cursor-pointer hover:border-gray-500' : 'opacity-50 cursor-not-allowed'}`}
+                        >
+                            <input
+                                type="checkbox"
+                                checked={supported && selected.includes(preset.id)}
+                                onChange={() => togglePreset(preset.id)}
+                                disabled={!supported || isExporting}
+                                className="mt-1 h-4 w-4 accent-indigo-500"
+                            />
+                            <span>
+                                <span className="block font-semibold">{preset.label}</span>
+                                <span className="block text-gray-400">
+                                    {supported ? preset.description : `Needs a ${Object.keys(preset.sizes ?? {}).join(' or ')} video`}
+                                </span>
+                            </span>
+                        </label>
+                    );
+                })}
+            </div>
+
+            {isExporting ? (
+                <div className="space-y-2">
+                    <p className="text-gray-400">Rendering {progress.label}&hellip;</p>
+                    <div className="flex items-center gap-4">
+                        <div className="flex-1 h-2 bg-gray-700 rounded-full overflow-hidden">
+                            <div className="h-full bg-indigo-500 transition-all" style={{ width: `${Math.round(progress.fraction * 100)}%` }} />
+                        </div>
+                        <button onClick={() => controller.current?.abort()} className="font-semibold py-1.5 px-4 rounded-md bg-red-600 hover:bg-red-500 transition-colors">
+                            Cancel
+                        </button>
+                    </div>
+                </div>
+            ) : (
+                <button
+                    onClick={handleExport}
+                    disabled={presets.length === 0}
+                    className="w-full py-3 px-6 rounded-lg bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed font-semibold transition-colors"
+                >
+                    {presets.length > 1 ? `Export ${presets.length} Formats` : 'Export'}
+                </button>
+            )}
+            <p className="text-xs text-gray-500">Any trim and speed change is applied. Several formats download together as a ZIP.</p>
+
+            {results.length > 0 && (
+                <ul className="space-y-1">
+                    {results.map(result => (
+                        <li key={result.preset.id} className="flex flex-wrap gap-x-2">
+                            <span className="font-semibold">{result.preset.label}</span>
+                            {result.blob && <span className="text-gray-400">{formatBytes(result.blob.size)}</span>}
+                            {result.warning && <span className="text-yellow-400">{result.warning}</span>}
+                            {result.error && <span className="text-red-400">{result.error}</span>}
+                        </li>
+                    ))}
+                </ul>
+            )}
+            {error && <p className="text-red-400">{error}</p>}
+        </div>
+    );
+};
@@ -0,0 +1,72 @@
+import React, { useEffect, useMemo } from 'react';
+import type { HistoryEntry } from '../types';
+import { buildDownloadName, downloadBlob, videoExtension } from '../services/download';
+
+interface HistoryPanelProps {
+    entries: HistoryEntry[];
+    onPlay: (entry: HistoryEntry) => void;
+    onRegenerate: (entry: HistoryEntry) => void;
+    onDelete: (entry: HistoryEntry) => void;
+    disabled?: boolean;
+}
+
+const formatTimestamp = (timestamp: number) => new Date(timestamp).toLocaleString();
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ entries, onPlay, onRegenerate, onDelete, disabled }) => {
+    const videoUrls = useMemo(
+        () => new Map(entries.map(entry => [entry.id, URL.createObjectURL(entry.video)])),
+        [entries]
+    );
+
+    useEffect(() => () => videoUrls.forEach(url => URL.revokeObjectURL(url)), [videoUrls]);
+
+    if (entries.length === 0) return null;
+
+    return (
+        <div className="bg-gray-800 border border-gray-700 p-6 rounded-2xl shadow-lg">
+            <h2 className="text-2xl font-semibold mb-4 text-indigo-300">History</h2>
+            <ul className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                {entries.map(entry => (
+                    <li key={entry.id} className="bg-gray-900 border border-gray-700 rounded-lg overflow-hidden flex flex-col">
+                        <video src={videoUrls.get(entry.id)} muted preload="metadata" className="w-full h-40 object-contain bg-black" />
+                        <div className="p-3 flex-1 flex flex-col gap-2">
+                            <p className="text-sm text-gray-300 line-clamp-2" title={entry.prompt}>{entry.prompt}</p>
+                            <p className="text-xs text-gray-500">
+                                {entry.aspectRatio} &middot; {entry.model}
+                                {entry.options && <> &middot; {entry.options.resolution}</>}
+                                {entry.options?.seed != null && <> &middot; seed {entry.options.seed}</>}
+                                {' '}&middot; {formatTimestamp(entry.completedAt)}
+                            </p>
+                            <div className="mt-auto grid grid-cols-2 gap-2 text-sm font-semibold">
+                                <button onClick={() => onPlay(entry)} className="py-1.5 rounded-md bg-indigo-600 hover:bg-indigo-500 transition-colors">
+                                    Play
+                                </button>
+                                <button
+                                    onClick={() => downloadBlob(entry.video, buildDownloadName({
+                                        prompt: entry.prompt,
+                                        aspectRatio: entry.aspectRatio,
+                                        timestamp: entry.completedAt,
+                                        extension: videoExtension(entry.video.type),
+                                    }))}
+                                    className="py-1.5 rounded-md bg-green-600 hover:bg-green-500 transition-colors"
+                                >
+                                    Download
+                                </button>
+                                <button
+                                    onClick={() => onRegenerate(entry)}
+                                    disabled={disabled}
+                                    className="py-1.5 rounded-md bg-purple-600 hover:bg-purple-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                                >
+                                    Regenerate
+                                </button>
+                                <button onClick={() => onDelete(entry)} className="py-1.5 rounded-md bg-red-700 hover:bg-red-600 transition-colors">
+                                    Delete
+                                </button>
+                            </div>
+                        </div>
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+};
@@ -0,0 +1,108 @@
+import React, { useMemo, useRef, useState } from 'react';
+import type { AspectRatio, CropRect } from '../types';
+import type { SourceImage } from '../services/imagePrep';
+import { clampCrop, createCenteredCrop } from '../services/imagePrep';
+
+interface ImageCropperProps {
+    source: SourceImage;
+    aspectRatio: AspectRatio;
+    initialCrop?: CropRect | null;
+    onConfirm: (crop: CropRect) => void;
+    onCancel: () => void;
+}
+
+const MAX_ZOOM = 4;
+
+export const ImageCropper: React.FC<ImageCropperProps> = ({ source, aspectRatio, initialCrop, onConfirm, onCancel }) => {
+    const { width, height } = source.canvas;
+    const fullCrop = useMemo(() => createCenteredCrop(width, height, aspectRatio), [width, height, aspectRatio]);
+    const [crop, setCrop] = useState<CropRect>(() => initialCrop ? clampCrop(initialCrop, width, height) : fullCrop);
+    const previewUrl = useMemo(() => source.canvas.toDataURL('image/jpeg', 0.8), [source]);
+    const containerRef = useRef<HTMLDivElement>(null);
+    const dragStart = useRef<{ pointerX: number; pointerY: number; crop: CropRect } | null>(null);
+
+    const zoom = fullCrop.width / crop.width;
+
+    const handleZoom = (nextZoom: number) => {
+        const cropWidth = fullCrop.width / nextZoom;
+        const cropHeight = fullCrop.height / nextZoom;
+        // Zoom around the centre of the current crop.
+        setCrop(clampCrop({
+            x: crop.x + (crop.width - cropWidth) / 2,
+            y: crop.y + (crop.height - cropHeight) / 2,
+            width: cropWidth,
+            height: cropHeight,
+        }, width, height));
+    };
+
+    const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+        event.currentTarget.setPointerCapture(event.pointerId);
+        dragStart.current = { pointerX: event.clientX, pointerY: event.clientY, crop };
+    };
+
+    const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+        const start = dragStart.current;
+        const container = containerRef.current;
+        if (!start || !container) return;
+        // Convert screen pixels to source pixels.
+        const scale = width / container.clientWidth;
+        setCrop(clampCrop({
+            ...start.crop,
+            x: start.crop.x + (event.clientX - start.pointerX) * scale,
+            y: start.crop.y + (event.clientY - start.pointerY) * scale,
+        }, width, height));
+    };
+
+    const handlePointerUp = () => {
+        dragStart.current = null;
+    };
+
+    return (
+        <div className="fixed inset-0 bg-gray-900 bg-opacity-80 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+            <div className="bg-gray-800 border border-gray-700 rounded-2xl shadow-xl max-w-3xl w-full p-6 space-y-4">
+                <div>
+                    <h2 className="text-2xl font-bold text-indigo-400">Crop Your Image</h2>
+                    <p className="text-sm text-gray-400 mt-1">Drag the frame to choose what the video starts from. The crop is locked to {aspectRatio} so nothing gets squashed or letterboxed.</p>
+                </div>
+                <div className="flex justify-center">
+                    <div ref={containerRef} className="relative overflow-hidden select-none touch-none max-h-[60vh]" style={{ aspectRatio: `${width} / ${height}` }}>
+                        <img src={previewUrl} alt="Image to crop" draggable={false} className="block max-h-[60vh] w-auto" />
+                        <div
+                            onPointerDown={handlePointerDown}
+                            onPointerMove={handlePointerMove}
+                            onPointerUp={handlePointerUp}
+                            onPointerCancel={handlePointerUp}
+                            className="absolute border-2 border-indigo-400 cursor-move shadow-[0_0_0_9999px_rgba(17,24,39,0.7)]"
+                            style={{
+                                left: `${(crop.x / width) * 100}%`,
+                                top: `${(crop.y / height) * 100}%`,
+                                width: `${(crop.width / width) * 100}%`,
+                                height: `${(crop.height / height) * 100}%`,
+                            }}
+                        />
+                    </div>
+                </div>
+                <label className="flex items-center gap-3 text-sm">
+                    <span className="text-gray-400">Zoom</span>
+                    <input
+                        type="range"
+                        min={1}
+                        max={MAX_ZOOM}
+                        step={0.01}
+                        value={zoom}
+                        onChange={(e) => handleZoom(Number(e.target.value))}
+                        className="flex-1 accent-indigo-500"
+                    />
+                </label>
+                <div className="flex justify-end gap-2">
+                    <button onClick={onCancel} className="font-semibold py-2 px-4 rounded-md bg-gray-700 hover:bg-gray-600 transition-colors">
+                        Cancel
+                    </button>
+                    <button onClick={() => onConfirm(crop)} className="font-semibold py-2 px-4 rounded-md bg-indigo-600 hover:bg-indigo-500 transition-colors">
+                        Use this crop
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
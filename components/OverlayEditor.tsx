@@ -0,0 +1,190 @@
+import React, { useState } from 'react';
+import type { LogoCorner, OverlayPosition, OverlaySettings, TextOverlay } from '../types';
+import { OVERLAY_FONTS } from '../constants';
+import { readFileAsDataUrl } from '../services/dataUrl';
+import { validateImageFile } from '../services/imagePrep';
+import { loadImageElement } from '../services/videoRecording';
+
+interface OverlayEditorProps {
+    settings: OverlaySettings;
+    onChange: (settings: OverlaySettings) => void;
+    showSafeArea: boolean;
+    onShowSafeAreaChange: (show: boolean) => void;
+}
+
+const POSITIONS: { value: OverlayPosition; label: string }[] = [
+    { value: 'top', label: 'Top' },
+    { value: 'center', label: 'Center' },
+    { value: 'lower-third', label: 'Lower third' },
+    { value: 'bottom', label: 'Bottom' },
+];
+
+const CORNERS: { value: LogoCorner; label: string }[] = [
+    { value: 'top-left', label: 'Top left' },
+    { value: 'top-right', label: 'Top right' },
+    { value: 'bottom-left', label: 'Bottom left' },
+    { value: 'bottom-right', label: 'Bottom right' },
+];
+
+const inputClassName = "p-2 bg-gray-900 border border-gray-600 rounded-md focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500";
+
+const TextOverlayFields: React.FC<{ label: string; overlay: TextOverlay; onChange: (overlay: TextOverlay) => void }> = ({ label, overlay, onChange }) => (
+    <fieldset className="space-y-2">
+        <legend className="font-semibold text-gray-200 mb-1">{label}</legend>
+        <input
+            type="text"
+            value={overlay.text}
+            onChange={(e) => onChange({ ...overlay, text: e.target.value })}
+            placeholder={`${label} text`}
+            className={`w-full ${inputClassName}`}
+        />
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 text-sm">
+            <select value={overlay.fontFamily} onChange={(e) => onChange({ ...overlay, fontFamily: e.target.value })} className={inputClassName} aria-label={`${label} font`}>
+                {OVERLAY_FONTS.map(font => <option key={font.value} value={font.value}>{font.label}</option>)}
+            </select>
+            <select value={overlay.position} onChange={(e) => onChange({ ...overlay, position: e.target.value as OverlayPosition })} className={inputClassName} aria-label={`${label} position`}>
+                {POSITIONS.map(position => <option key={position.value} value={position.value}>{position.label}</option>)}
+            </select>
+            <label className="flex items-center gap-2">
+                <span className="text-gray-400">Size</span>
+                <input
+                    type="range"
+                    min={2}
+                    max={20}
+                    value={overlay.fontSizePercent}
+                    onChange={(e) => onChange({ ...overlay, fontSizePercent: Number(e.target.value) })}
+                    className="w-full accent-indigo-500"
+                />
+            </label>
+            <label className="flex items-center gap-2">
+                <span className="text-gray-400">Colour</span>
+                <input type="color" value={overlay.color} onChange={(e) => onChange({ ...overlay, color: e.target.value })} className="h-8 w-12 bg-transparent" />
+            </label>
+        </div>
+    </fieldset>
+);
+
+export const OverlayEditor: React.FC<OverlayEditorProps> = ({ settings, onChange, showSafeArea, onShowSafeAreaChange }) => {
+    const { logo } = settings;
+    const [logoError, setLogoError] = useState<string | null>(null);
+
+    const handleLogoChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) return;
+        setLogoError(null);
+        const problem = validateImageFile(file);
+        if (problem) {
+            setLogoError(problem);
+            return;
+        }
+        let dataUrl: string;
+        try {
+            dataUrl = await readFileAsDataUrl(file);
+            // The compositor draws the logo as an <img>, so make sure it decodes as one.
+            await loadImageElement(dataUrl);
+        } catch (e) {
+            console.error("Could not load logo", e);
+            setLogoError(`"${file.name}" could not be read as an image.`);
+            return;
+        }
+        onChange({
+            ...settings,
+            logo: {
+                corner: 'top-right',
+                sizePercent: 15,
+                startSeconds: 0,
+                endSeconds: null,
+                fadeSeconds: 0.5,
+                ...logo,
+                image: { id: Date.now().toString(), dataUrl, name: file.name },
+            },
+        });
+    };
+
+    return (
+        <div className="space-y-5">
+            <div className="flex items-center justify-between">
+                <h3 className="text-xl font-semibold text-indigo-300">Branding Overlays</h3>
+                <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+                    <input type="checkbox" checked={showSafeArea} onChange={(e) => onShowSafeAreaChange(e.target.checked)} className="accent-indigo-500" />
+                    Show safe area
+                </label>
+            </div>
+
+            <TextOverlayFields label="Title" overlay={settings.title} onChange={(title) => onChange({ ...settings, title })} />
+            <TextOverlayFields label="Subtitle" overlay={settings.subtitle} onChange={(subtitle) => onChange({ ...settings, subtitle })} />
+
+            <fieldset className="space-y-2">
+                <legend className="font-semibold text-gray-200 mb-1">Logo</legend>
+                <div className="flex items-center gap-3">
+                    <label className="text-sm font-semibold py-1.5 px-4 rounded-md bg-gray-700 hover:bg-gray-600 transition-colors cursor-pointer">
+                        {logo ? 'Replace logo' : 'Upload logo'}
+                        <input type="file" accept="image/*" onChange={handleLogoChange} className="hidden" />
+                    </label>
+                    {logo && (
+                        <>
+                            <img src={logo.image.dataUrl} alt={logo.image.name} className="h-8 rounded" />
+                            <button onClick={() => onChange({ ...settings, logo: null })} className="text-sm text-red-400 hover:text-red-300">
+                                Remove
+                            </button>
+                        </>
+                    )}
+                </div>
+                {logoError && <p className="text-sm text-red-400">{logoError}</p>}
+                {logo && (
+                    <div className="grid grid-cols-2 sm:grid-cols-5 gap-2 text-sm">
+                        <select value={logo.corner} onChange={(e) => onChange({ ...settings, logo: { ...logo, corner: e.target.value as LogoCorner } })} className={inputClassName} aria-label="Logo corner">
+                            {CORNERS.map(corner => <option key={corner.value} value={corner.value}>{corner.label}</option>)}
+                        </select>
+                        <label className="flex items-center gap-2">
+                            <span className="text-gray-400">Size</span>
+                            <input
+                                type="range"
+                                min={5}
+                                max={40}
+                                value={logo.sizePercent}
+                                onChange={(e) => onChange({ ...settings, logo: { ...logo, sizePercent: Number(e.target.value) } })}
+                                className="w-full accent-indigo-500"
+                            />
+                        </label>
+                        <label className="flex items-center gap-2">
+                            <span className="text-gray-400">In (s)</span>
+                            <input
+                                type="number"
+                                min={0}
+                                step={0.1}
+                                value={logo.startSeconds}
+                                onChange={(e) => onChange({ ...settings, logo: { ...logo, startSeconds: Math.max(0, Number(e.target.value)) } })}
+                                className={`w-full ${inputClassName}`}
+                            />
+                        </label>
+                        <label className="flex items-center gap-2">
+                            <span className="text-gray-400">Out (s)</span>
+                            <input
+                                type="number"
+                                min={0}
+                                step={0.1}
+                                value={logo.endSeconds ?? ''}
+                                placeholder="End"
+                                onChange={(e) => onChange({ ...settings, logo: { ...logo, endSeconds: e.target.value === '' ? null : Math.max(0, Number(e.target.value)) } })}
+                                className={`w-full ${inputClassName}`}
+                            />
+                        </label>
+                        <label className="flex items-center gap-2">
+                            <span className="text-gray-400">Fade (s)</span>
+                            <input
+                                type="number"
+                                min={0}
+                                step={0.1}
+                                value={logo.fadeSeconds}
+                                onChange={(e) => onChange({ ...settings, logo: { ...logo, fadeSeconds: Math.max(0, Number(e.target.value)) } })}
+                                className={`w-full ${inputClassName}`}
+                            />
+                        </label>
+                    </div>
+                )}
+            </fieldset>
+        </div>
+    );
+};
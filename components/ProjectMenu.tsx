@@ -0,0 +1,42 @@
+import React, { useRef, useState } from 'react';
+
+interface ProjectMenuProps {
+    canSave: boolean;
+    onSave: () => Promise<void>;
+    onOpen: (file: File) => Promise<void>;
+}
+
+export const ProjectMenu: React.FC<ProjectMenuProps> = ({ canSave, onSave, onOpen }) => {
+    const [busy, setBusy] = useState<'saving' | 'opening' | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const run = async (action: 'saving' | 'opening', task: () => Promise<void>) => {
+        setBusy(action);
+        try {
+            await task();
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (file) run('opening', () => onOpen(file));
+    };
+
+    const buttonClassName = "text-sm font-semibold py-1.5 px-3 rounded-md bg-gray-800 border border-gray-700 hover:border-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors";
+
+    return (
+        <div className="flex flex-wrap items-center justify-end gap-2">
+            <span className="text-sm text-gray-500 mr-auto">Hand the whole intro to a teammate as a single project file.</span>
+            <button onClick={() => fileInputRef.current?.click()} disabled={busy !== null} className={buttonClassName}>
+                {busy === 'opening' ? 'Opening...' : 'Open project'}
+            </button>
+            <button onClick={() => run('saving', onSave)} disabled={!canSave || busy !== null} className={buttonClassName}>
+                {busy === 'saving' ? 'Saving...' : 'Save project'}
+            </button>
+            <input type="file" ref={fileInputRef} onChange={handleFileChange} accept=".zip,application/zip" className="hidden" />
+        </div>
+    );
+};
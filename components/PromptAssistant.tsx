@@ -0,0 +1,105 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { AspectRatio, ImageFile } from '../types';
+import { enhancePrompt, isAbortError, suggestPrompts } from '../services/geminiService';
+import { GenerationError, classifyError } from '../services/errors';
+import { ErrorNotice } from './ErrorNotice';
+
+interface PromptAssistantProps {
+    image: ImageFile | null;
+    aspectRatio: AspectRatio;
+    prompt: string;
+    onApply: (prompt: string) => void;
+}
+
+type AssistantAction = 'suggest' | 'enhance';
+
+const HEADINGS: Record<AssistantAction, string> = {
+    suggest: 'Suggestions for your image',
+    enhance: 'Enhanced prompt',
+};
+
+export const PromptAssistant: React.FC<PromptAssistantProps> = ({ image, aspectRatio, prompt, onApply }) => {
+    const [pending, setPending] = useState<AssistantAction | null>(null);
+    const [results, setResults] = useState<{ action: AssistantAction; prompts: string[] } | null>(null);
+    const [error, setError] = useState<GenerationError | null>(null);
+    const controller = useRef<AbortController | null>(null);
+
+    useEffect(() => () => controller.current?.abort(), []);
+
+    // Suggestions describe one particular image.
+    useEffect(() => {
+        setResults(current => current?.action === 'suggest' ? null : current);
+    }, [image?.id]);
+
+    const run = async (action: AssistantAction, request: (signal: AbortSignal) => Promise<string[]>) => {
+        controller.current?.abort();
+        const current = new AbortController();
+        controller.current = current;
+        setPending(action);
+        setError(null);
+        try {
+            setResults({ action, prompts: await request(current.signal) });
+        } catch (e) {
+            if (!isAbortError(e) && !current.signal.aborted) {
+                console.error(e);
+                setError(classifyError(e));
+            }
+        } finally {
+            if (controller.current === current) {
+                controller.current = null;
+                setPending(null);
+            }
+        }
+    };
+
+    const handleSuggest = () => {
+        if (!image) return;
+        run('suggest', signal => suggestPrompts(image.dataUrl, aspectRatio, { signal }));
+    };
+
+    const handleEnhance = () => {
+        run('enhance', async signal => [await enhancePrompt(prompt, image?.dataUrl, aspectRatio, { signal })]);
+    };
+
+    const buttonClassName = "text-sm font-semibold py-1.5 px-3 rounded-md bg-gray-700 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors";
+
+    return (
+        <div className="mt-4 space-y-3">
+            <div className="flex flex-wrap items-center gap-2">
+                <button onClick={handleSuggest} disabled={!image || pending !== null} className={buttonClassName} title={image ? undefined : 'Upload an image first'}>
+                    {pending === 'suggest' ? 'Looking at your image...' : 'Suggest prompts from image'}
+                </button>
+                <button onClick={handleEnhance} disabled={!prompt.trim() || pending !== null} className={buttonClassName} title={prompt.trim() ? undefined : 'Write a rough idea first'}>
+                    {pending === 'enhance' ? 'Enhancing...' : 'Enhance my prompt'}
+                </button>
+                {pending && (
+                    <button onClick={() => controller.current?.abort()} className="text-sm font-semibold text-red-400 hover:text-red-300 transition-colors">
+                        Cancel
+                    </button>
+                )}
+            </div>
+
+            {error && <ErrorNotice error={error} />}
+
+            {results && (
+                <div className="space-y-2">
+                    <div className="flex items-center justify-between">
+                        <p className="text-sm font-semibold text-gray-300">{HEADINGS[results.action]}</p>
+                        <button onClick={() => setResults(null)} className="text-sm text-gray-400 hover:text-gray-200 transition-colors">
+                            Dismiss
+                        </button>
+                    </div>
+                    {results.prompts.map(suggestion => (
+                        <div key={suggestion} className="flex items-start gap-3 p-3 bg-gray-900/50 border border-gray-700 rounded-md">
+                            <p className="flex-1 text-sm text-gray-300">{suggestion}</p>
+                            <button onClick={() => onApply(suggestion)} className="text-sm font-semibold text-indigo-400 hover:text-indigo-300 transition-colors">
+                                Use
+                            </button>
+                        </div>
+                    ))}
+                    <p className="text-xs text-gray-500">Pick one to copy it into the prompt box, then edit it as you like before generating.</p>
+                </div>
+            )}
+        </div>
+    );
+};
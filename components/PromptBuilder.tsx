@@ -0,0 +1,203 @@
+import React, { useRef, useState } from 'react';
+import type { PromptPreset, StyleModifierCategory } from '../types';
+import { BUILT_IN_PROMPT_PRESETS, STYLE_MODIFIERS } from '../constants';
+import { expandPrompt, extractVariables, findMissingVariables, importPresets, serializePresets } from '../services/promptTemplates';
+import { downloadBlob } from '../services/download';
+import { usePromptPresets } from '../hooks/usePromptPresets';
+
+interface PromptBuilderProps {
+    onApply: (prompt: string) => void;
+}
+
+const CATEGORIES: { value: StyleModifierCategory; label: string }[] = [
+    { value: 'camera', label: 'Camera' },
+    { value: 'lighting', label: 'Lighting' },
+    { value: 'pacing', label: 'Pacing' },
+];
+
+const inputClassName = "p-2 bg-gray-900 border border-gray-600 rounded-md focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500";
+
+export const PromptBuilder: React.FC<PromptBuilderProps> = ({ onApply }) => {
+    const { presets: savedPresets, upsertPresets, removePreset } = usePromptPresets();
+    const [selectedId, setSelectedId] = useState<string>(BUILT_IN_PROMPT_PRESETS[0].id);
+    const [template, setTemplate] = useState<string>(BUILT_IN_PROMPT_PRESETS[0].template);
+    const [variables, setVariables] = useState<Record<string, string>>(BUILT_IN_PROMPT_PRESETS[0].variables);
+    const [modifierIds, setModifierIds] = useState<string[]>(BUILT_IN_PROMPT_PRESETS[0].modifierIds);
+    const [presetName, setPresetName] = useState<string>('');
+    const [message, setMessage] = useState<string | null>(null);
+    const importInputRef = useRef<HTMLInputElement>(null);
+
+    const allPresets = [...BUILT_IN_PROMPT_PRESETS, ...savedPresets];
+    const selectedPreset = allPresets.find(preset => preset.id === selectedId);
+    const variableNames = extractVariables(template);
+    const missing = findMissingVariables(template, variables);
+    const preview = expandPrompt(template, variables, modifierIds);
+
+    const loadPreset = (id: string) => {
+        const preset = allPresets.find(candidate => candidate.id === id);
+        if (!preset) return;
+        setSelectedId(preset.id);
+        setTemplate(preset.template);
+        setVariables(preset.variables);
+        setModifierIds(preset.modifierIds);
+        setPresetName(preset.builtIn ? '' : preset.name);
+        setMessage(null);
+    };
+
+    // One modifier per category; clicking the active one clears it.
+    const toggleModifier = (id: string, category: StyleModifierCategory) => {
+        setModifierIds(prev => {
+            const others = prev.filter(existing => STYLE_MODIFIERS.find(modifier => modifier.id === existing)?.category !== category);
+            return prev.includes(id) ? others : [...others, id];
+        });
+    };
+
+    const handleSave = () => {
+        const name = presetName.trim();
+        if (!name) return;
+        const existing = savedPresets.find(preset => preset.name === name);
+        const preset: PromptPreset = {
+            id: existing?.id ?? Date.now().toString(),
+            name,
+            template,
+            variables: Object.fromEntries(variableNames.map(variable => [variable, variables[variable] ?? ''])),
+            modifierIds,
+        };
+        upsertPresets([preset]);
+        setSelectedId(preset.id);
+        setMessage(existing ? `Updated "${name}".` : `Saved "${name}".`);
+    };
+
+    const handleDelete = () => {
+        if (!selectedPreset || selectedPreset.builtIn) return;
+        if (window.confirm(`Delete the preset "${selectedPreset.name}"?`)) {
+            removePreset(selectedPreset.id);
+            loadPreset(BUILT_IN_PROMPT_PRESETS[0].id);
+        }
+    };
+
+    const handleExport = () => {
+        downloadBlob(new Blob([serializePresets(savedPresets)], { type: 'application/json' }), 'robo-ai-prompt-presets.json');
+    };
+
+    const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) return;
+        try {
+            const imported = importPresets(await file.text(), savedPresets);
+            upsertPresets(imported);
+            setMessage(`Imported ${imported.length} ${imported.length === 1 ? 'preset' : 'presets'}.`);
+        } catch (e: any) {
+            setMessage(`Import failed: ${e.message}`);
+        }
+    };
+
+    return (
+        <div className="mt-4 space-y-4 border-t border-gray-700 pt-4">
+            <div className="flex flex-wrap items-center gap-2">
+                <select value={selectedId} onChange={(e) => loadPreset(e.target.value)} className={`flex-1 min-w-[12rem] ${inputClassName}`} aria-label="Prompt preset">
+                    <optgroup label="Built-in templates">
+                        {BUILT_IN_PROMPT_PRESETS.map(preset => <option key={preset.id} value={preset.id}>{preset.name}</option>)}
+                    </optgroup>
+                    {savedPresets.length > 0 && (
+                        <optgroup label="Your presets">
+                            {savedPresets.map(preset => <option key={preset.id} value={preset.id}>{preset.name}</option>)}
+                        </optgroup>
+                    )}
+                </select>
+                <button onClick={() => importInputRef.current?.click()} className="text-sm font-semibold py-2 px-3 rounded-md bg-gray-700 hover:bg-gray-600 transition-colors">
+                    Import
+                </button>
+                <input type="file" accept="application/json,.json" ref={importInputRef} onChange={handleImport} className="hidden" />
+                <button
+                    onClick={handleExport}
+                    disabled={savedPresets.length === 0}
+                    className="text-sm font-semibold py-2 px-3 rounded-md bg-gray-700 hover:bg-gray-600 disabled:opacity-50 transition-colors"
+                >
+                    Export
+                </button>
+            </div>
+
+            <div>
+                <label className="block text-sm text-gray-400 mb-1" htmlFor="prompt-template">Template <span className="text-gray-500">(use {'{{name}}'} for variables)</span></label>
+                <textarea
+                    id="prompt-template"
+                    value={template}
+                    onChange={(e) => setTemplate(e.target.value)}
+                    className={`w-full h-20 ${inputClassName}`}
+                />
+            </div>
+
+            {variableNames.length > 0 && (
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                    {variableNames.map(name => (
+                        <label key={name} className="flex items-center gap-2 text-sm">
+                            <span className="w-28 shrink-0 text-gray-400 truncate" title={name}>{name}</span>
+                            <input
+                                type="text"
+                                value={variables[name] ?? ''}
+                                onChange={(e) => setVariables(prev => ({ ...prev, [name]: e.target.value }))}
+                                className={`flex-1 ${inputClassName}`}
+                            />
+                        </label>
+                    ))}
+                </div>
+            )}
+
+            <div className="space-y-2">
+                {CATEGORIES.map(category => (
+                    <div key={category.value} className="flex flex-wrap items-center gap-2 text-sm">
+                        <span className="w-20 text-gray-400">{category.label}</span>
+                        {STYLE_MODIFIERS.filter(modifier => modifier.category === category.value).map(modifier => (
+                            <button
+                                key={modifier.id}
+                                onClick={() => toggleModifier(modifier.id, modifier.category)}
+                                title={modifier.text}
+                                className={`py-1 px-3 rounded-full border transition-colors ${modifierIds.includes(modifier.id) ? 'border-indigo-500 bg-indigo-900/60 text-white' : 'border-gray-600 text-gray-300 hover:border-indigo-500'}`}
+                            >
+                                {modifier.label}
+                            </button>
+                        ))}
+                    </div>
+                ))}
+            </div>
+
+            <div className="bg-gray-900 border border-gray-700 rounded-md p-3">
+                <p className="text-xs uppercase tracking-wide text-gray-500 mb-1">Preview</p>
+                <p className="text-gray-200">{preview}</p>
+                {missing.length > 0 && <p className="text-xs text-yellow-400 mt-2">Fill in: {missing.join(', ')}</p>}
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2">
+                <button
+                    onClick={() => onApply(preview)}
+                    disabled={missing.length > 0}
+                    className="text-sm font-semibold py-2 px-4 rounded-md bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                    Use this prompt
+                </button>
+                <input
+                    type="text"
+                    value={presetName}
+                    onChange={(e) => setPresetName(e.target.value)}
+                    placeholder="Preset name"
+                    className={`flex-1 min-w-[10rem] text-sm ${inputClassName}`}
+                />
+                <button
+                    onClick={handleSave}
+                    disabled={!presetName.trim()}
+                    className="text-sm font-semibold py-2 px-4 rounded-md bg-purple-600 hover:bg-purple-500 disabled:opacity-50 transition-colors"
+                >
+                    Save preset
+                </button>
+                {selectedPreset && !selectedPreset.builtIn && (
+                    <button onClick={handleDelete} className="text-sm font-semibold py-2 px-4 rounded-md bg-red-700 hover:bg-red-600 transition-colors">
+                        Delete
+                    </button>
+                )}
+            </div>
+            {message && <p className="text-sm text-gray-300">{message}</p>}
+        </div>
+    );
+};
@@ -0,0 +1,162 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { ClipEdit, HistoryEntry, OverlaySettings } from '../types';
+import { OverlayEditor } from './OverlayEditor';
+import { ClipEditor } from './ClipEditor';
+import { ExportPanel } from './ExportPanel';
+import { compositeVideo, drawOverlays, drawSafeAreaGuide, hasOverlays } from '../services/compositor';
+import { buildDownloadName, downloadBlob, videoExtension } from '../services/download';
+import { loadImageElement } from '../services/videoRecording';
+import { useObjectUrl } from '../hooks/useObjectUrl';
+
+interface ResultCardProps {
+    entry: HistoryEntry;
+    overlaySettings: OverlaySettings;
+    onOverlaySettingsChange: (settings: OverlaySettings) => void;
+    clipEdit: ClipEdit;
+    onClipEditChange: (edit: ClipEdit) => void;
+}
+
+export const ResultCard: React.FC<ResultCardProps> = ({ entry, overlaySettings, onOverlaySettingsChange, clipEdit, onClipEditChange }) => {
+    const [showSafeArea, setShowSafeArea] = useState<boolean>(false);
+    const [logoImage, setLogoImage] = useState<HTMLImageElement | null>(null);
+    const [exportProgress, setExportProgress] = useState<number | null>(null);
+    const [exportError, setExportError] = useState<string | null>(null);
+    const videoRef = useRef<HTMLVideoElement>(null);
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const exportController = useRef<AbortController | null>(null);
+
+    const videoUrl = useObjectUrl(entry.video);
+
+    const buildFilename = (extension: string, suffix?: string) =>
+        buildDownloadName({ prompt: entry.prompt, aspectRatio: entry.aspectRatio, timestamp: entry.completedAt, suffix, extension });
+
+    useEffect(() => () => exportController.current?.abort(), []);
+
+    useEffect(() => {
+        let cancelled = false;
+        setLogoImage(null);
+        if (overlaySettings.logo) {
+            loadImageElement(overlaySettings.logo.image.dataUrl)
+                .then(image => { if (!cancelled) setLogoImage(image); })
+                .catch(e => console.error("Could not load logo", e));
+        }
+        return () => { cancelled = true; };
+    }, [overlaySettings.logo?.image.dataUrl]);
+
+    // Live preview: redraw the overlays on a canvas stacked over the playing video.
+    // A logo without an end time fades out where the trimmed clip ends.
+    useEffect(() => {
+        let frame: number;
+        const render = () => {
+            const video = videoRef.current;
+            const canvas = canvasRef.current;
+            const ctx = canvas?.getContext('2d');
+            if (video && canvas && ctx && video.videoWidth) {
+                if (canvas.width !== video.videoWidth || canvas.height !== video.videoHeight) {
+                    canvas.width = video.videoWidth;
+                    canvas.height = video.videoHeight;
+                }
+                ctx.clearRect(0, 0, canvas.width, canvas.height);
+                const end = Math.min(clipEdit.end ?? video.duration, video.duration);
+                drawOverlays(ctx, overlaySettings, entry.aspectRatio, video.currentTime, end, logoImage);
+                if (showSafeArea) drawSafeAreaGuide(ctx, entry.aspectRatio);
+            }
+            frame = requestAnimationFrame(render);
+        };
+        render();
+        return () => cancelAnimationFrame(frame);
+    }, [overlaySettings, logoImage, showSafeArea, entry.aspectRatio, clipEdit.end]);
+
+    const handleExport = async () => {
+        const controller = new AbortController();
+        exportController.current = controller;
+        setExportError(null);
+        setExportProgress(0);
+        try {
+            const composited = await compositeVideo(entry.video, overlaySettings, entry.aspectRatio, {
+                edit: clipEdit,
+                signal: controller.signal,
+                onProgress: setExportProgress,
+            });
+            downloadBlob(composited, buildFilename(videoExtension(composited.type), 'branded'));
+        } catch (e: any) {
+            if (!controller.signal.aborted) {
+                console.error(e);
+                setExportError(e.message || "Could not render the overlays.");
+            }
+        } finally {
+            exportController.current = null;
+            setExportProgress(null);
+        }
+    };
+
+    const isExporting = exportProgress !== null;
+
+    return (
+        <div className="bg-gray-800 border border-gray-700 p-6 rounded-2xl shadow-lg">
+            <h2 className="text-2xl font-semibold mb-4 text-indigo-300">Your Video Intro is Ready!</h2>
+            <div
+                className="relative bg-black rounded-lg overflow-hidden mx-auto max-h-[70vh]"
+                style={{ aspectRatio: entry.aspectRatio.replace(':', ' / ') }}
+            >
+                <video ref={videoRef} src={videoUrl} controls autoPlay loop className="absolute inset-0 w-full h-full object-contain" />
+                <canvas ref={canvasRef} className="absolute inset-0 w-full h-full pointer-events-none" />
+            </div>
+            <a
+                href={videoUrl}
+                download={buildFilename(videoExtension(entry.video.type))}
+                className="mt-4 inline-block w-full text-center py-3 px-6 rounded-lg bg-green-600 hover:bg-green-500 font-semibold transition-colors"
+            >
+                Download Video
+            </a>
+
+            <div className="mt-8 border-t border-gray-700 pt-6">
+                <ClipEditor
+                    video={entry.video}
+                    videoRef={videoRef}
+                    edit={clipEdit}
+                    onChange={onClipEditChange}
+                    buildFilename={buildFilename}
+                />
+            </div>
+
+            <div className="mt-8 border-t border-gray-700 pt-6">
+                <ExportPanel
+                    video={entry.video}
+                    aspectRatio={entry.aspectRatio}
+                    edit={clipEdit}
+                    buildFilename={buildFilename}
+                />
+            </div>
+
+            <div className="mt-8 border-t border-gray-700 pt-6 space-y-4">
+                <OverlayEditor
+                    settings={overlaySettings}
+                    onChange={onOverlaySettingsChange}
+                    showSafeArea={showSafeArea}
+                    onShowSafeAreaChange={setShowSafeArea}
+                />
+                {isExporting ? (
+                    <div className="flex items-center gap-4">
+                        <div className="flex-1 h-2 bg-gray-700 rounded-full overflow-hidden">
+                            <div className="h-full bg-indigo-500 transition-all" style={{ width: `${Math.round(exportProgress * 100)}%` }} />
+                        </div>
+                        <button onClick={() => exportController.current?.abort()} className="text-sm font-semibold py-1.5 px-4 rounded-md bg-red-600 hover:bg-red-500 transition-colors">
+                            Cancel
+                        </button>
+                    </div>
+                ) : (
+                    <button
+                        onClick={handleExport}
+                        disabled={!hasOverlays(overlaySettings)}
+                        className="w-full py-3 px-6 rounded-lg bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed font-semibold transition-colors"
+                    >
+                        Export with Overlays
+                    </button>
+                )}
+                <p className="text-xs text-gray-500">Overlays are rendered in your browser in real time, so exporting takes as long as the clip plays. Any trim and speed change is applied too.</p>
+                {exportError && <p className="text-sm text-red-400">{exportError}</p>}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,223 @@
+import React from 'react';
+import type { AspectRatio, ShotStatus, StoryboardShot } from '../types';
+import { ERROR_GUIDANCE } from '../constants';
+import { prepareImageFile } from '../services/imagePrep';
+import { downloadBlob, videoExtension } from '../services/download';
+import { useObjectUrl } from '../hooks/useObjectUrl';
+
+interface StoryboardPanelProps {
+    shots: StoryboardShot[];
+    aspectRatio: AspectRatio;
+    onAspectRatioChange: (aspectRatio: AspectRatio) => void;
+    crossfadeSeconds: number;
+    onCrossfadeChange: (seconds: number) => void;
+    isGenerating: boolean;
+    stitchProgress: number | null;
+    stitchedVideo: Blob | null;
+    error: string | null;
+    onAddShot: () => void;
+    onUpdateShot: (id: string, changes: Partial<StoryboardShot>) => void;
+    onRemoveShot: (id: string) => void;
+    onMoveShot: (id: string, offset: -1 | 1) => void;
+    onGenerate: (onlyId?: string) => void;
+    onStitch: () => void;
+    onCancel: () => void;
+}
+
+const STATUS_STYLES: Record<ShotStatus, string> = {
+    pending: 'text-gray-400',
+    running: 'text-indigo-300',
+    succeeded: 'text-green-400',
+    failed: 'text-red-400',
+};
+
+const ShotPreview: React.FC<{ video: Blob }> = ({ video }) => {
+    const url = useObjectUrl(video);
+    return <video src={url} controls muted className="w-full h-32 object-contain bg-black rounded-md" />;
+};
+
+const StitchedPreview: React.FC<{ video: Blob }> = ({ video }) => {
+    const url = useObjectUrl(video);
+    return <video src={url} controls autoPlay className="w-full max-h-[70vh] object-contain bg-black rounded-lg" />;
+};
+
+export const StoryboardPanel: React.FC<StoryboardPanelProps> = ({
+    shots,
+    aspectRatio,
+    onAspectRatioChange,
+    crossfadeSeconds,
+    onCrossfadeChange,
+    isGenerating,
+    stitchProgress,
+    stitchedVideo,
+    error,
+    onAddShot,
+    onUpdateShot,
+    onRemoveShot,
+    onMoveShot,
+    onGenerate,
+    onStitch,
+    onCancel,
+}) => {
+    const isStitching = stitchProgress !== null;
+    const isBusy = isGenerating || isStitching;
+    const allShotsReady = shots.length > 0 && shots.every(shot => shot.video);
+
+    const handleImageChange = async (shot: StoryboardShot, event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) return;
+        try {
+            onUpdateShot(shot.id, { image: await prepareImageFile(file), error: undefined, errorKind: undefined });
+        } catch (e: any) {
+            onUpdateShot(shot.id, { error: e.message, errorKind: undefined });
+        }
+    };
+
+    return (
+        <div className="space-y-8">
+            <div className="bg-gray-800 border border-gray-700 p-6 rounded-2xl shadow-lg space-y-4">
+                <h2 className="text-2xl font-semibold text-indigo-300">Storyboard</h2>
+                <p className="text-sm text-gray-400">Build a longer intro from several shots. Each shot is generated in order, and can continue from the last frame of the shot before it.</p>
+                <div className="flex flex-wrap items-center gap-6">
+                    <div className="flex items-center gap-3">
+                        <span className="font-semibold">Aspect ratio</span>
+                        {(['16:9', '9:16'] as AspectRatio[]).map(ratio => (
+                            <button
+                                key={ratio}
+                                onClick={() => onAspectRatioChange(ratio)}
+                                disabled={isBusy}
+                                className={`py-1 px-3 rounded-md border-2 text-sm transition-colors ${aspectRatio === ratio ? 'border-indigo-500 bg-indigo-900/50' : 'border-gray-600 bg-gray-700 hover:border-indigo-600'}`}
+                            >
+                                {ratio}
+                            </button>
+                        ))}
+                    </div>
+                    <label className="flex items-center gap-2">
+                        <span className="font-semibold">Crossfade (s)</span>
+                        <input
+                            type="number"
+                            min={0}
+                            max={2}
+                            step={0.1}
+                            value={crossfadeSeconds}
+                            onChange={(e) => onCrossfadeChange(Math.max(0, Number(e.target.value) || 0))}
+                            className="w-20 p-1 bg-gray-900 border border-gray-600 rounded-md text-center"
+                        />
+                    </label>
+                </div>
+            </div>
+
+            <ol className="space-y-4">
+                {shots.map((shot, index) => (
+                    <li key={shot.id} className="bg-gray-800 border border-gray-700 p-4 rounded-2xl shadow-lg">
+                        <div className="flex items-center justify-between mb-3">
+                            <h3 className="font-semibold text-indigo-300">Shot {index + 1}</h3>
+                            <div className="flex items-center gap-2 text-sm">
+                                <span className={STATUS_STYLES[shot.status]} title={shot.errorKind && ERROR_GUIDANCE[shot.errorKind].guidance}>
+                                    {shot.errorKind ? `${ERROR_GUIDANCE[shot.errorKind].title}: ` : ''}{shot.error ?? shot.progress}
+                                </span>
+                                <button onClick={() => onMoveShot(shot.id, -1)} disabled={isBusy || index === 0} className="px-2 py-1 rounded bg-gray-700 hover:bg-gray-600 disabled:opacity-40" aria-label="Move shot up">&uarr;</button>
+                                <button onClick={() => onMoveShot(shot.id, 1)} disabled={isBusy || index === shots.length - 1} className="px-2 py-1 rounded bg-gray-700 hover:bg-gray-600 disabled:opacity-40" aria-label="Move shot down">&darr;</button>
+                                <button onClick={() => onRemoveShot(shot.id)} disabled={isBusy || shots.length === 1} className="px-2 py-1 rounded bg-red-700 hover:bg-red-600 disabled:opacity-40" aria-label="Remove shot">&times;</button>
+                            </div>
+                        </div>
+                        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                            <div className="sm:col-span-2 space-y-2">
+                                <textarea
+                                    value={shot.prompt}
+                                    onChange={(e) => onUpdateShot(shot.id, { prompt: e.target.value })}
+                                    placeholder="Describe this shot..."
+                                    className="w-full h-20 p-2 bg-gray-900 border border-gray-600 rounded-md focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                                />
+                                {index > 0 && (
+                                    <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+                                        <input
+                                            type="checkbox"
+                                            checked={shot.seedFromPrevious}
+                                            onChange={(e) => onUpdateShot(shot.id, { seedFromPrevious: e.target.checked })}
+                                            className="accent-indigo-500"
+                                        />
+                                        Continue from the last frame of shot {index}
+                                    </label>
+                                )}
+                                {!(index > 0 && shot.seedFromPrevious) && (
+                                    <div className="flex items-center gap-3">
+                                        <label className="text-sm font-semibold py-1.5 px-4 rounded-md bg-gray-700 hover:bg-gray-600 transition-colors cursor-pointer">
+                                            {shot.image ? 'Change start image' : 'Choose start image'}
+                                            <input type="file" accept="image/*,.heic,.heif" onChange={(e) => handleImageChange(shot, e)} className="hidden" />
+                                        </label>
+                                        {shot.image && <img src={shot.image.dataUrl} alt={shot.image.name} className="h-10 rounded" />}
+                                    </div>
+                                )}
+                            </div>
+                            <div className="space-y-2">
+                                {shot.video && <ShotPreview video={shot.video} />}
+                                {shot.video && (
+                                    <button
+                                        onClick={() => onGenerate(shot.id)}
+                                        disabled={isBusy}
+                                        className="w-full text-sm font-semibold py-1.5 rounded-md bg-purple-600 hover:bg-purple-500 disabled:opacity-50 transition-colors"
+                                    >
+                                        Regenerate shot
+                                    </button>
+                                )}
+                            </div>
+                        </div>
+                    </li>
+                ))}
+            </ol>
+
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                <button
+                    onClick={onAddShot}
+                    disabled={isBusy}
+                    className="py-3 rounded-lg font-semibold bg-gray-700 hover:bg-gray-600 disabled:opacity-50 transition-colors"
+                >
+                    + Add Shot
+                </button>
+                {isBusy ? (
+                    <button onClick={onCancel} className="sm:col-span-2 py-3 rounded-lg font-semibold bg-red-600 hover:bg-red-500 transition-colors">
+                        {isStitching ? `Cancel stitching (${Math.round(stitchProgress * 100)}%)` : 'Cancel generation'}
+                    </button>
+                ) : (
+                    <>
+                        <button
+                            onClick={() => onGenerate()}
+                            disabled={allShotsReady}
+                            className="py-3 rounded-lg font-bold bg-gradient-to-r from-indigo-600 to-purple-600 hover:from-indigo-500 hover:to-purple-500 disabled:opacity-50 transition-all"
+                        >
+                            Generate Shots
+                        </button>
+                        <button
+                            onClick={onStitch}
+                            disabled={!allShotsReady}
+                            className="py-3 rounded-lg font-bold bg-green-600 hover:bg-green-500 disabled:opacity-50 transition-colors"
+                        >
+                            Stitch Intro
+                        </button>
+                    </>
+                )}
+            </div>
+
+            {error && (
+                <div className="bg-red-900/50 border border-red-500 text-red-300 p-4 rounded-lg text-center">
+                    <strong>Error:</strong> {error}
+                </div>
+            )}
+
+            {stitchedVideo && (
+                <div className="bg-gray-800 border border-gray-700 p-6 rounded-2xl shadow-lg">
+                    <h2 className="text-2xl font-semibold mb-4 text-indigo-300">Your Stitched Intro</h2>
+                    <StitchedPreview video={stitchedVideo} />
+                    <button
+                        onClick={() => downloadBlob(stitchedVideo, `robo-ai-storyboard.${videoExtension(stitchedVideo.type)}`)}
+                        className="mt-4 w-full py-3 px-6 rounded-lg bg-green-600 hover:bg-green-500 font-semibold transition-colors"
+                    >
+                        Download Intro
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,200 @@
+import React, { useState } from 'react';
+import type { BudgetPeriod, ModelPrice, PriceTable, UsageBudget, UsageRecord, VideoModelCapabilities } from '../types';
+import { formatCost, totalSpend, usageToCsv } from '../services/usageLedger';
+import { downloadBlob } from '../services/download';
+
+interface UsagePanelProps {
+    records: UsageRecord[];
+    prices: PriceTable;
+    budget: UsageBudget;
+    models: VideoModelCapabilities[];
+    // Estimated cost of the generation currently set up.
+    nextCost: number;
+    onPricesChange: (prices: PriceTable) => void;
+    onBudgetChange: (budget: UsageBudget) => void;
+}
+
+const inputClassName = "p-2 bg-gray-900 border border-gray-600 rounded-md focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500";
+
+const RECENT_RECORD_COUNT = 10;
+
+const STATUS_CLASSES: Record<UsageRecord['status'], string> = {
+    pending: 'text-indigo-300',
+    succeeded: 'text-green-400',
+    failed: 'text-red-400',
+    cancelled: 'text-gray-400',
+};
+
+const PERIOD_OPTIONS: { value: BudgetPeriod; label: string }[] = [
+    { value: 'session', label: 'per session' },
+    { value: 'day', label: 'per day' },
+    { value: 'month', label: 'per month' },
+];
+
+const parseAmount = (value: string): number | undefined => {
+    if (value.trim() === '') return undefined;
+    const amount = Number(value);
+    return Number.isFinite(amount) && amount >= 0 ? amount : undefined;
+};
+
+export const UsagePanel: React.FC<UsagePanelProps> = ({ records, prices, budget, models, nextCost, onPricesChange, onBudgetChange }) => {
+    const [isOpen, setIsOpen] = useState<boolean>(false);
+
+    const totals = [
+        { label: 'Session', amount: totalSpend(records, 'session') },
+        { label: 'Today', amount: totalSpend(records, 'day') },
+        { label: 'This month', amount: totalSpend(records, 'month') },
+    ];
+    const budgetSpend = totalSpend(records, budget.period);
+    const overBudget = budget.limit !== null && budgetSpend >= budget.limit;
+
+    const updatePrice = (model: string, changes: Partial<ModelPrice>) => {
+        const price = { ...(prices[model] ?? { perSecond: 0 }), ...changes };
+        onPricesChange({ ...prices, [model]: price });
+    };
+
+    const handleExport = () => {
+        const date = new Date().toISOString().slice(0, 10);
+        downloadBlob(new Blob([usageToCsv(records)], { type: 'text/csv' }), `robo-ai-usage-${date}.csv`);
+    };
+
+    const summary = [
+        ...totals.map(total => `${total.label} ${formatCost(total.amount)}`),
+        budget.limit !== null ? `budget ${formatCost(budget.limit)} ${PERIOD_OPTIONS.find(option => option.value === budget.period)?.label}` : null,
+    ].filter(Boolean).join(' · ');
+
+    return (
+        <div className="bg-gray-800 border border-gray-700 p-6 rounded-2xl shadow-lg">
+            <button onClick={() => setIsOpen(open => !open)} className="w-full flex items-center justify-between gap-4 text-left" aria-expanded={isOpen}>
+                <span>
+                    <span className="block text-2xl font-semibold text-indigo-300">Usage &amp; Budget</span>
+                    <span className={`block text-sm mt-1 ${overBudget ? 'text-yellow-400' : 'text-gray-400'}`}>{summary}</span>
+                </span>
+                <span className="text-indigo-400 font-semibold text-sm shrink-0">{isOpen ? 'Hide' : 'Show'}</span>
+            </button>
+
+            {isOpen && (
+                <div className="mt-4 space-y-6 border-t border-gray-700 pt-4 text-sm">
+                    <p className="text-gray-400">
+                        Costs are estimates from the price table below; your Google Cloud billing is authoritative.
+                        The next generation with the current settings is estimated at <span className="text-white font-semibold">{formatCost(nextCost)}</span>.
+                    </p>
+
+                    <div className="grid grid-cols-3 gap-4">
+                        {totals.map(total => (
+                            <div key={total.label} className="bg-gray-900 border border-gray-700 rounded-lg p-3 text-center">
+                                <p className="text-gray-400">{total.label}</p>
+                                <p className="text-xl font-semibold text-white">{formatCost(total.amount)}</p>
+                            </div>
+                        ))}
+                    </div>
+
+                    <div className="space-y-2">
+                        <h3 className="font-semibold text-indigo-300">Budget</h3>
+                        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                            <label className="flex flex-col gap-1">
+                                <span className="text-gray-400">Limit (USD)</span>
+                                <input
+                                    type="number"
+                                    min={0}
+                                    step={0.5}
+                                    value={budget.limit ?? ''}
+                                    onChange={(e) => onBudgetChange({ ...budget, limit: parseAmount(e.target.value) ?? null })}
+                                    placeholder="No limit"
+                                    className={inputClassName}
+                                />
+                            </label>
+                            <label className="flex flex-col gap-1">
+                                <span className="text-gray-400">Period</span>
+                                <select value={budget.period} onChange={(e) => onBudgetChange({ ...budget, period: e.target.value as BudgetPeriod })} className={inputClassName}>
+                                    {PERIOD_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+                                </select>
+                            </label>
+                            <label className="flex flex-col gap-1">
+                                <span className="text-gray-400">When exceeded</span>
+                                <select value={budget.action} onChange={(e) => onBudgetChange({ ...budget, action: e.target.value as UsageBudget['action'] })} className={inputClassName}>
+                                    <option value="confirm">Ask before generating</option>
+                                    <option value="block">Block generation</option>
+                                </select>
+                            </label>
+                        </div>
+                    </div>
+
+                    <div className="space-y-2">
+                        <h3 className="font-semibold text-indigo-300">Prices (USD per second of video)</h3>
+                        <table className="w-full text-left">
+                            <thead className="text-gray-400">
+                                <tr>
+                                    <th className="font-normal pb-1">Model</th>
+                                    <th className="font-normal pb-1">Without audio</th>
+                                    <th className="font-normal pb-1">With audio</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {models.map(model => (
+                                    <tr key={model.id}>
+                                        <td className="pr-2 py-1 text-gray-300">{model.label}</td>
+                                        <td className="pr-2 py-1">
+                                            <input
+                                                type="number"
+                                                min={0}
+                                                step={0.01}
+                                                value={prices[model.id]?.perSecond ?? ''}
+                                                onChange={(e) => updatePrice(model.id, { perSecond: parseAmount(e.target.value) ?? 0 })}
+                                                className={`w-24 ${inputClassName}`}
+                                            />
+                                        </td>
+                                        <td className="py-1">
+                                            {model.supportsAudio || prices[model.id]?.perSecondWithAudio !== undefined ? (
+                                                <input
+                                                    type="number"
+                                                    min={0}
+                                                    step={0.01}
+                                                    value={prices[model.id]?.perSecondWithAudio ?? ''}
+                                                    onChange={(e) => updatePrice(model.id, { perSecondWithAudio: parseAmount(e.target.value) })}
+                                                    placeholder="Same"
+                                                    className={`w-24 ${inputClassName}`}
+                                                />
+                                            ) : <span className="text-gray-500">n/a</span>}
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+
+                    <div className="space-y-2">
+                        <div className="flex items-center justify-between gap-4">
+                            <h3 className="font-semibold text-indigo-300">Recent operations</h3>
+                            <button
+                                onClick={handleExport}
+                                disabled={records.length === 0}
+                                className="font-semibold py-1.5 px-4 rounded-md bg-gray-700 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                            >
+                                Export CSV
+                            </button>
+                        </div>
+                        {records.length === 0 ? (
+                            <p className="text-gray-500">Nothing has been submitted yet.</p>
+                        ) : (
+                            <ul className="space-y-1">
+                                {records.slice(0, RECENT_RECORD_COUNT).map(record => (
+                                    <li key={record.id} className="flex items-center justify-between gap-4 bg-gray-900 border border-gray-700 rounded-md px-3 py-2">
+                                        <span className="text-gray-300 truncate">
+                                            {new Date(record.submittedAt).toLocaleString()} &middot; {record.model} &middot; {record.resolution} &middot; {record.durationSeconds}s
+                                            {record.numberOfVideos > 1 && <> &times; {record.numberOfVideos}</>}
+                                        </span>
+                                        <span className="shrink-0 flex gap-3">
+                                            <span className={STATUS_CLASSES[record.status]}>{record.status}</span>
+                                            <span className="text-white">{formatCost(record.estimatedCost)}</span>
+                                        </span>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -1,3 +1,5 @@
+import type { AspectRatio, ExportPreset, GenerationErrorKind, OverlaySettings, PriceTable, PromptPreset, SafeArea, StyleModifier, UsageBudget } from './types';
+
 
 export const LOADING_MESSAGES: string[] = [
   "Initializing hyperdrive...",
@@ -18,3 +20,185 @@ export const RANDOM_PROMPTS: string[] = [
   "A mysterious and suspenseful opening for a horror film, set in a dark, abandoned mansion.",
   "A vibrant and energetic intro for a superhero movie, showcasing their powers.",
 ];
+
+export const SAFE_AREAS: Record<AspectRatio, SafeArea> = {
+  '16:9': { top: 0.1, right: 0.1, bottom: 0.1, left: 0.1 },
+  // Vertical platforms cover the top and bottom of the frame with their own UI.
+  '9:16': { top: 0.14, right: 0.08, bottom: 0.22, left: 0.08 },
+};
+
+export const OVERLAY_FONTS: { label: string; value: string }[] = [
+  { label: 'Sans', value: 'Helvetica, Arial, sans-serif' },
+  { label: 'Serif', value: 'Georgia, "Times New Roman", serif' },
+  { label: 'Impact', value: 'Impact, "Arial Black", sans-serif' },
+  { label: 'Mono', value: '"Courier New", monospace' },
+];
+
+export const DEFAULT_OVERLAY_SETTINGS: OverlaySettings = {
+  title: {
+    text: '',
+    fontFamily: OVERLAY_FONTS[0].value,
+    fontSizePercent: 10,
+    color: '#ffffff',
+    position: 'center',
+  },
+  subtitle: {
+    text: '',
+    fontFamily: OVERLAY_FONTS[0].value,
+    fontSizePercent: 5,
+    color: '#c7d2fe',
+    position: 'center',
+  },
+  logo: null,
+};
+
+export const STYLE_MODIFIERS: StyleModifier[] = [
+  { id: 'camera-dolly-in', category: 'camera', label: 'Slow dolly-in', text: 'The camera slowly dollies in toward the subject.' },
+  { id: 'camera-orbit', category: 'camera', label: 'Orbit', text: 'The camera orbits smoothly around the subject.' },
+  { id: 'camera-crane', category: 'camera', label: 'Crane up', text: 'A sweeping crane shot rises to reveal the scene.' },
+  { id: 'camera-handheld', category: 'camera', label: 'Handheld', text: 'Energetic handheld camera work.' },
+  { id: 'lighting-golden-hour', category: 'lighting', label: 'Golden hour', text: 'Warm golden-hour lighting with long shadows.' },
+  { id: 'lighting-neon', category: 'lighting', label: 'Neon', text: 'Saturated neon lighting with strong color contrast.' },
+  { id: 'lighting-low-key', category: 'lighting', label: 'Low-key', text: 'Moody low-key lighting with deep blacks.' },
+  { id: 'lighting-studio', category: 'lighting', label: 'Clean studio', text: 'Bright, clean studio lighting.' },
+  { id: 'pacing-slow', category: 'pacing', label: 'Slow build', text: 'Slow, deliberate pacing that builds anticipation.' },
+  { id: 'pacing-fast', category: 'pacing', label: 'Fast cuts', text: 'Fast, punchy pacing with rapid motion.' },
+  { id: 'pacing-slow-motion', category: 'pacing', label: 'Slow motion', text: 'Dramatic slow-motion movement.' },
+];
+
+export const BUILT_IN_PROMPT_PRESETS: PromptPreset[] = [
+  {
+    id: 'builtin-channel-intro',
+    name: 'Channel intro',
+    template: 'A cinematic {{mood}} intro for the {{genre}} channel "{{channelName}}", with the channel name revealed at the end.',
+    variables: { mood: 'energetic', genre: 'tech review', channelName: '' },
+    modifierIds: ['camera-dolly-in', 'pacing-fast'],
+    builtIn: true,
+  },
+  {
+    id: 'builtin-episode-opener',
+    name: 'Episode opener',
+    template: 'An opening sequence for episode {{episode}} of "{{channelName}}", a {{genre}} series, with a {{mood}} atmosphere.',
+    variables: { episode: '1', channelName: '', genre: 'documentary', mood: 'mysterious' },
+    modifierIds: ['camera-crane', 'lighting-low-key', 'pacing-slow'],
+    builtIn: true,
+  },
+  {
+    id: 'builtin-logo-reveal',
+    name: 'Logo reveal',
+    template: 'A {{mood}} logo reveal for {{channelName}}, the image coming to life with particles and light.',
+    variables: { mood: 'sleek', channelName: '' },
+    modifierIds: ['camera-orbit', 'lighting-studio'],
+    builtIn: true,
+  },
+];
+
+// What to tell the user for each class of failure.
+export const ERROR_GUIDANCE: Record<GenerationErrorKind, { title: string; guidance: string }> = {
+  'invalid-key': {
+    title: "Your API key was rejected",
+    guidance: "The key may be invalid, expired or missing access to Veo. Select a different key from a project with billing enabled.",
+  },
+  quota: {
+    title: "Quota or rate limit reached",
+    guidance: "We retried a few times without luck. Wait a minute before trying again, lower the batch concurrency, or check your project's quota and billing.",
+  },
+  safety: {
+    title: "Blocked by the safety filters",
+    guidance: "Try rewording the prompt, or use a different start image. Real people, logos and violent or sensitive content are common triggers.",
+  },
+  'operation-failed': {
+    title: "Generation failed",
+    guidance: "The service could not finish this video. Trying again usually works; if it keeps failing, simplify the prompt or change the settings.",
+  },
+  'download-failed': {
+    title: "The video could not be downloaded",
+    guidance: "The video was generated but fetching it failed. Check your connection and try again; generated videos are only kept for a limited time.",
+  },
+  network: {
+    title: "Connection problem",
+    guidance: "The video service could not be reached or is temporarily unavailable. Check your connection and try again in a moment.",
+  },
+  'invalid-request': {
+    title: "The request was not accepted",
+    guidance: "Check the advanced settings and the start image, then try again.",
+  },
+  unknown: {
+    title: "Something went wrong",
+    guidance: "Please try again. If the problem persists, reload the page.",
+  },
+};
+
+// Published Gemini API list prices in US dollars per second of video. They
+// change from time to time, so users can override them in the usage panel.
+export const DEFAULT_PRICE_TABLE: PriceTable = {
+  'veo-3.1-fast-generate-preview': { perSecond: 0.10, perSecondWithAudio: 0.15 },
+  'veo-3.1-generate-preview': { perSecond: 0.20, perSecondWithAudio: 0.40 },
+  'veo-2.0-generate-001': { perSecond: 0.35 },
+  'mock-video-1': { perSecond: 0 },
+};
+
+export const DEFAULT_USAGE_BUDGET: UsageBudget = {
+  limit: null,
+  period: 'day',
+  action: 'confirm',
+};
+
+const MB = 1024 * 1024;
+
+// Sizes and limits follow each platform's upload guidelines.
+export const EXPORT_PRESETS: ExportPreset[] = [
+  {
+    id: 'youtube',
+    label: 'YouTube intro',
+    description: '1080p MP4 at a high bitrate',
+    format: 'mp4',
+    sizes: { '16:9': { width: 1920, height: 1080 } },
+    videoBitsPerSecond: 10_000_000,
+  },
+  {
+    id: 'vertical',
+    label: 'Shorts / Reels / TikTok',
+    description: '1080×1920 MP4, up to 60 seconds',
+    format: 'mp4',
+    sizes: { '9:16': { width: 1080, height: 1920 } },
+    videoBitsPerSecond: 8_000_000,
+    maxBytes: 250 * MB,
+    maxSeconds: 60,
+  },
+  {
+    id: 'x',
+    label: 'Twitter / X',
+    description: '720p MP4, up to 140 seconds',
+    format: 'mp4',
+    sizes: { '16:9': { width: 1280, height: 720 }, '9:16': { width: 720, height: 1280 } },
+    videoBitsPerSecond: 5_000_000,
+    maxBytes: 512 * MB,
+    maxSeconds: 140,
+  },
+  {
+    id: 'webm',
+    label: 'WebM',
+    description: 'Original size, for embedding on the web',
+    format: 'webm',
+    videoBitsPerSecond: 4_000_000,
+  },
+  {
+    id: 'gif',
+    label: 'GIF preview',
+    description: '480px at 12 fps, under 15 MB',
+    format: 'gif',
+    sizes: { '16:9': { width: 480, height: 270 }, '9:16': { width: 270, height: 480 } },
+    fps: 12,
+    maxBytes: 15 * MB,
+  },
+  {
+    id: 'webp',
+    label: 'Animated WebP thumbnail',
+    description: '480px at 15 fps, much smaller than a GIF',
+    format: 'webp',
+    sizes: { '16:9': { width: 480, height: 270 }, '9:16': { width: 270, height: 480 } },
+    fps: 15,
+    maxBytes: 5 * MB,
+  },
+];
@@ -0,0 +1,109 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { AspectRatio, BatchItem, GenerationJob, GenerationOptions, ImageFile } from '../types';
+import { isAbortError } from '../services/geminiService';
+import { createGenerationJob, runGenerationJob } from '../services/jobRunner';
+import { cropImageToAspect } from '../services/imagePrep';
+import { classifyError } from '../services/errors';
+
+export const DEFAULT_BATCH_CONCURRENCY = 2;
+export const MAX_BATCH_CONCURRENCY = 5;
+
+interface UseBatchQueueOptions {
+  onComplete: (job: GenerationJob, videos: Blob[]) => void;
+}
+
+// Runs a queue of generations with at most `concurrency` in flight. Each
+// submitted item is persisted like a single generation, so a reload mid-batch
+// still recovers the videos (into the history rather than the batch list).
+export const useBatchQueue = ({ onComplete }: UseBatchQueueOptions) => {
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [concurrency, setConcurrency] = useState<number>(DEFAULT_BATCH_CONCURRENCY);
+  const controllers = useRef(new Map<string, AbortController>());
+  const onCompleteRef = useRef(onComplete);
+  onCompleteRef.current = onComplete;
+
+  const updateItem = useCallback((id: string, changes: Partial<BatchItem>) => {
+    setItems(prev => prev.map(item => (item.id === id ? { ...item, ...changes } : item)));
+  }, []);
+
+  const runItem = useCallback(async (item: BatchItem) => {
+    const controller = new AbortController();
+    controllers.current.set(item.id, controller);
+    const jobId = `${item.id}-${item.attempts + 1}`;
+    updateItem(item.id, {
+      status: 'running',
+      progress: 'Preparing image...',
+      attempts: item.attempts + 1,
+      model: item.options.model,
+      error: undefined,
+      errorKind: undefined,
+    });
+
+    try {
+      const image = await cropImageToAspect(item.image, item.aspectRatio);
+      controller.signal.throwIfAborted();
+      const job = { ...createGenerationJob({ ...item, image }), id: jobId };
+      const result = await runGenerationJob(job, {
+        signal: controller.signal,
+        onProgress: progress => updateItem(item.id, { progress }),
+      });
+      // Extra candidates only go to the history; the batch keeps the first.
+      updateItem(item.id, { status: 'succeeded', progress: 'Done', video: result.videos[0] });
+      onCompleteRef.current(result.job, result.videos);
+    } catch (e) {
+      if (isAbortError(e)) {
+        updateItem(item.id, { status: 'cancelled', progress: 'Cancelled' });
+      } else {
+        console.error(e);
+        const error = classifyError(e);
+        updateItem(item.id, { status: 'failed', progress: 'Failed', error: error.message, errorKind: error.kind });
+      }
+    } finally {
+      controllers.current.delete(item.id);
+    }
+  }, [updateItem]);
+
+  useEffect(() => {
+    const running = items.filter(item => item.status === 'running').length;
+    const freeSlots = concurrency - running;
+    if (freeSlots <= 0) return;
+    items.filter(item => item.status === 'queued').slice(0, freeSlots).forEach(runItem);
+  }, [items, concurrency, runItem]);
+
+  const enqueue = useCallback((images: ImageFile[], prompts: string[], aspectRatios: AspectRatio[], options: GenerationOptions) => {
+    const batchId = Date.now().toString();
+    const newItems: BatchItem[] = [];
+    images.forEach(image => prompts.forEach(prompt => aspectRatios.forEach(aspectRatio => {
+      newItems.push({
+        id: `${batchId}-${newItems.length}`,
+        image,
+        prompt,
+        aspectRatio,
+        options,
+        status: 'queued',
+        progress: 'Waiting in queue...',
+        attempts: 0,
+      });
+    })));
+    setItems(prev => [...prev, ...newItems]);
+  }, []);
+
+  const retry = useCallback((id: string) => {
+    updateItem(id, { status: 'queued', progress: 'Waiting in queue...', error: undefined, errorKind: undefined });
+  }, [updateItem]);
+
+  const cancel = useCallback((id: string) => {
+    const controller = controllers.current.get(id);
+    if (controller) {
+      controller.abort();
+    } else {
+      updateItem(id, { status: 'cancelled', progress: 'Cancelled' });
+    }
+  }, [updateItem]);
+
+  const clearFinished = useCallback(() => {
+    setItems(prev => prev.filter(item => item.status === 'queued' || item.status === 'running'));
+  }, []);
+
+  return { items, concurrency, setConcurrency, enqueue, retry, cancel, clearFinished };
+};
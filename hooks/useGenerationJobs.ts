@@ -0,0 +1,84 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { AspectRatio, GenerationJob } from '../types';
+import { isAbortError } from '../services/geminiService';
+import { createDefaultGenerationOptions } from '../services/generationOptions';
+import { createGenerationJob, runGenerationJob } from '../services/jobRunner';
+import type { JobRequest } from '../services/jobRunner';
+import { listJobs } from '../services/jobStore';
+import { getVideoProvider } from '../services/providers';
+
+export interface ActiveJob {
+  id: string;
+  prompt: string;
+  aspectRatio: AspectRatio;
+  progress: string;
+}
+
+interface UseGenerationJobsOptions {
+  onComplete: (job: GenerationJob, videos: Blob[]) => void;
+  onError: (job: GenerationJob, error: unknown) => void;
+}
+
+// Jobs persisted before `model` or `options` were recorded fall back to their
+// provider's defaults.
+const withJobDefaults = (job: GenerationJob): GenerationJob => {
+  const provider = getVideoProvider(job.providerId);
+  const model = job.model ?? provider.model;
+  return { ...job, model, options: job.options ?? { ...createDefaultGenerationOptions(provider), model } };
+};
+
+// Runs generations in the background, persisting each submitted operation so
+// that polling picks up where it left off after a page reload.
+export const useGenerationJobs = ({ onComplete, onError }: UseGenerationJobsOptions) => {
+  const [activeJobs, setActiveJobs] = useState<ActiveJob[]>([]);
+  const controllers = useRef(new Map<string, AbortController>());
+  const callbacks = useRef({ onComplete, onError });
+  callbacks.current = { onComplete, onError };
+  const hasResumed = useRef(false);
+
+  const runJob = useCallback(async (job: GenerationJob, resume: boolean) => {
+    const controller = new AbortController();
+    controllers.current.set(job.id, controller);
+    setActiveJobs(jobs => [...jobs, {
+      id: job.id,
+      prompt: job.prompt,
+      aspectRatio: job.aspectRatio,
+      progress: resume ? 'Resuming your previous generation...' : 'Sending request to the AI...',
+    }]);
+    const setProgress = (progress: string) => {
+      setActiveJobs(jobs => jobs.map(active => (active.id === job.id ? { ...active, progress } : active)));
+    };
+
+    try {
+      const result = await runGenerationJob(job, { resume, signal: controller.signal, onProgress: setProgress });
+      callbacks.current.onComplete(result.job, result.videos);
+    } catch (e) {
+      if (!isAbortError(e)) {
+        callbacks.current.onError(job, e);
+      }
+    } finally {
+      controllers.current.delete(job.id);
+      setActiveJobs(jobs => jobs.filter(active => active.id !== job.id));
+    }
+  }, []);
+
+  useEffect(() => {
+    if (hasResumed.current) return;
+    hasResumed.current = true;
+    listJobs()
+      .then(jobs => jobs.forEach(job => runJob(withJobDefaults(job), true)))
+      .catch(e => console.error("Could not restore pending generations", e));
+  }, [runJob]);
+
+  const startJob = useCallback((request: JobRequest) => {
+    runJob(createGenerationJob(request), false);
+  }, [runJob]);
+
+  // Stops polling and any download in progress; the runner then forgets the
+  // job. The remote operation itself cannot be cancelled and may still be billed.
+  const cancelJob = useCallback((id: string) => {
+    controllers.current.get(id)?.abort();
+  }, []);
+
+  return { activeJobs, startJob, cancelJob };
+};
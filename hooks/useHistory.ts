@@ -0,0 +1,25 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { HistoryEntry } from '../types';
+import { deleteHistoryEntry, listHistory, saveHistoryEntry } from '../services/historyStore';
+
+export const useHistory = () => {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+
+  useEffect(() => {
+    listHistory()
+      .then(setEntries)
+      .catch(e => console.error("Could not load generation history", e));
+  }, []);
+
+  const addEntry = useCallback(async (entry: HistoryEntry) => {
+    setEntries(prev => [entry, ...prev.filter(existing => existing.id !== entry.id)]);
+    await saveHistoryEntry(entry).catch(e => console.error("Could not save history entry", e));
+  }, []);
+
+  const removeEntry = useCallback(async (id: string) => {
+    setEntries(prev => prev.filter(entry => entry.id !== id));
+    await deleteHistoryEntry(id).catch(e => console.error("Could not delete history entry", e));
+  }, []);
+
+  return { entries, addEntry, removeEntry };
+};
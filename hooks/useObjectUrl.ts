@@ -0,0 +1,8 @@
+import { useEffect, useMemo } from 'react';
+
+// An object URL for `blob` that is revoked when the blob changes or the component unmounts.
+export const useObjectUrl = (blob: Blob): string => {
+  const url = useMemo(() => URL.createObjectURL(blob), [blob]);
+  useEffect(() => () => URL.revokeObjectURL(url), [url]);
+  return url;
+};
@@ -0,0 +1,34 @@
+import { useCallback, useState } from 'react';
+import type { PromptPreset } from '../types';
+import { loadSavedPresets, savePresets } from '../services/promptTemplates';
+
+// User-saved prompt presets, kept in local storage.
+export const usePromptPresets = () => {
+  const [presets, setPresets] = useState<PromptPreset[]>(loadSavedPresets);
+
+  const update = useCallback((change: (prev: PromptPreset[]) => PromptPreset[]) => {
+    setPresets(prev => {
+      const next = change(prev);
+      try {
+        savePresets(next);
+      } catch (e) {
+        console.error("Could not save prompt presets", e);
+      }
+      return next;
+    });
+  }, []);
+
+  // Adds or replaces presets by id.
+  const upsertPresets = useCallback((incoming: PromptPreset[]) => {
+    update(prev => [
+      ...prev.filter(preset => !incoming.some(added => added.id === preset.id)),
+      ...incoming,
+    ]);
+  }, [update]);
+
+  const removePreset = useCallback((id: string) => {
+    update(prev => prev.filter(preset => preset.id !== id));
+  }, [update]);
+
+  return { presets, upsertPresets, removePreset };
+};
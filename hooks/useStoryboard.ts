@@ -0,0 +1,225 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { AspectRatio, GenerationJob, GenerationOptions, ImageFile, StoryboardShot } from '../types';
+import { isAbortError } from '../services/geminiService';
+import { createGenerationJob, runGenerationJob } from '../services/jobRunner';
+import { stitchClips } from '../services/stitcher';
+import { extractFrame } from '../services/videoRecording';
+import { cropImageToAspect } from '../services/imagePrep';
+import { classifyError } from '../services/errors';
+
+interface UseStoryboardOptions {
+  onShotComplete: (job: GenerationJob, videos: Blob[]) => void;
+}
+
+const createShot = (): StoryboardShot => ({
+  id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  prompt: '',
+  image: null,
+  seedFromPrevious: false,
+  status: 'pending',
+  progress: '',
+});
+
+// Editing any of these makes the shot's video stale.
+const SHOT_INPUTS: Array<keyof StoryboardShot> = ['prompt', 'image', 'seedFromPrevious'];
+
+// A shot that is still rendering keeps its status; it finishes with what it was given.
+const resetShot = (shot: StoryboardShot): StoryboardShot => (shot.status === 'running'
+  ? shot
+  : { ...shot, video: undefined, status: 'pending', progress: '', error: undefined, errorKind: undefined });
+
+// Resets the shot at `index`, and the ones after it, for as long as they
+// continue from the previous shot, since the frame they started from changed.
+const resetSeededFrom = (shots: StoryboardShot[], index: number): StoryboardShot[] => {
+  const next = [...shots];
+  for (let i = index; i < next.length && i > 0 && next[i].seedFromPrevious; i++) {
+    next[i] = resetShot(next[i]);
+  }
+  return next;
+};
+
+// Shots are generated one after another, since a shot may start from the
+// last frame of the one before it.
+export const useStoryboard = ({ onShotComplete }: UseStoryboardOptions) => {
+  const [shots, setShots] = useState<StoryboardShot[]>(() => [createShot()]);
+  const [aspectRatio, setAspectRatio] = useState<AspectRatio>('16:9');
+  const [crossfadeSeconds, setCrossfadeSeconds] = useState<number>(0.5);
+  const [isGenerating, setIsGenerating] = useState<boolean>(false);
+  const [stitchProgress, setStitchProgress] = useState<number | null>(null);
+  const [stitchedVideo, setStitchedVideo] = useState<Blob | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const shotsRef = useRef(shots);
+  shotsRef.current = shots;
+  const controllerRef = useRef<AbortController | null>(null);
+  const onShotCompleteRef = useRef(onShotComplete);
+  onShotCompleteRef.current = onShotComplete;
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const patchShot = useCallback((id: string, changes: Partial<StoryboardShot>) => {
+    setShots(prev => prev.map(shot => (shot.id === id ? { ...shot, ...changes } : shot)));
+  }, []);
+
+  // Applies an edit from the user, dropping the videos it makes stale.
+  const updateShot = useCallback((id: string, changes: Partial<StoryboardShot>) => {
+    setShots(prev => {
+      const index = prev.findIndex(shot => shot.id === id);
+      if (index < 0) return prev;
+      const next = [...prev];
+      next[index] = { ...next[index], ...changes };
+      if (!SHOT_INPUTS.some(key => key in changes)) return next;
+      next[index] = resetShot(next[index]);
+      return resetSeededFrom(next, index + 1);
+    });
+  }, []);
+
+  // Clips in another aspect ratio can't be stitched with the rest, so every
+  // finished shot is rendered again.
+  const changeAspectRatio = useCallback((next: AspectRatio) => {
+    if (next === aspectRatio) return;
+    setAspectRatio(next);
+    setShots(prev => prev.map(resetShot));
+    setStitchedVideo(null);
+  }, [aspectRatio]);
+
+  const addShot = useCallback(() => {
+    setShots(prev => [...prev, { ...createShot(), seedFromPrevious: prev.length > 0 }]);
+  }, []);
+
+  const removeShot = useCallback((id: string) => {
+    setShots(prev => {
+      const index = prev.findIndex(shot => shot.id === id);
+      return index < 0 ? prev : resetSeededFrom(prev.filter(shot => shot.id !== id), index);
+    });
+  }, []);
+
+  const moveShot = useCallback((id: string, offset: -1 | 1) => {
+    setShots(prev => {
+      const index = prev.findIndex(shot => shot.id === id);
+      const target = index + offset;
+      if (index < 0 || target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      // Both swapped shots, and the one after them, now follow a different shot.
+      const first = Math.min(index, target);
+      return [first, first + 1, first + 2].reduce((shots, i) => resetSeededFrom(shots, i), next);
+    });
+  }, []);
+
+  const resolveStartImage = async (index: number): Promise<ImageFile> => {
+    const shot = shotsRef.current[index];
+    if (shot.seedFromPrevious && index > 0) {
+      const previous = shotsRef.current[index - 1];
+      if (!previous.video) {
+        throw new Error(`Shot ${index} has no video to continue from.`);
+      }
+      return {
+        id: `${shot.id}-seed`,
+        dataUrl: await extractFrame(previous.video, -0.05),
+        name: `shot-${index}-last-frame.png`,
+      };
+    }
+    if (!shot.image) {
+      throw new Error(`Shot ${index + 1} needs a start image.`);
+    }
+    return cropImageToAspect(shot.image, aspectRatio);
+  };
+
+  // Generates every shot that has no video yet, or only `onlyId` when given.
+  const generate = useCallback(async (options: GenerationOptions, onlyId?: string) => {
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setIsGenerating(true);
+    setError(null);
+    setStitchedVideo(null);
+
+    try {
+      for (let index = 0; index < shotsRef.current.length; index++) {
+        const shot = shotsRef.current[index];
+        if (onlyId ? shot.id !== onlyId : shot.video) continue;
+
+        patchShot(shot.id, { status: 'running', progress: 'Preparing...', error: undefined, errorKind: undefined });
+        try {
+          if (!shot.prompt.trim()) {
+            throw new Error(`Shot ${index + 1} needs a prompt.`);
+          }
+          const image = await resolveStartImage(index);
+          const job = createGenerationJob({ prompt: shot.prompt, image, aspectRatio, options });
+          const result = await runGenerationJob(job, {
+            signal: controller.signal,
+            onProgress: progress => patchShot(shot.id, { progress }),
+          });
+          // Keep the ref current so the next shot can seed from this video straight away.
+          // Extra candidates only go to the history; the shot uses the first.
+          // Shots that continued from an earlier take of this one are rendered again.
+          const [video] = result.videos;
+          const finish = (list: StoryboardShot[]) => resetSeededFrom(list.map(s => (
+            s.id === shot.id ? { ...s, status: 'succeeded' as const, progress: 'Done', video } : s
+          )), index + 1);
+          shotsRef.current = finish(shotsRef.current);
+          setShots(finish);
+          onShotCompleteRef.current(result.job, result.videos);
+        } catch (e) {
+          if (isAbortError(e)) {
+            patchShot(shot.id, { status: 'pending', progress: 'Cancelled' });
+            return;
+          }
+          console.error(e);
+          const error = classifyError(e);
+          patchShot(shot.id, { status: 'failed', progress: 'Failed', error: error.message, errorKind: error.kind });
+          setError(`Stopped at shot ${index + 1}. Fix or retry it to continue the storyboard.`);
+          return;
+        }
+      }
+    } finally {
+      controllerRef.current = null;
+      setIsGenerating(false);
+    }
+  }, [aspectRatio, patchShot]);
+
+  const stitch = useCallback(async () => {
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setError(null);
+    setStitchProgress(0);
+    try {
+      const clips = shotsRef.current.map(shot => shot.video).filter((video): video is Blob => Boolean(video));
+      setStitchedVideo(await stitchClips(clips, {
+        crossfadeSeconds,
+        signal: controller.signal,
+        onProgress: setStitchProgress,
+      }));
+    } catch (e: any) {
+      if (!isAbortError(e)) {
+        console.error(e);
+        setError(e?.message || "Could not stitch the shots together.");
+      }
+    } finally {
+      controllerRef.current = null;
+      setStitchProgress(null);
+    }
+  }, [crossfadeSeconds]);
+
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+  }, []);
+
+  return {
+    shots,
+    aspectRatio,
+    setAspectRatio: changeAspectRatio,
+    crossfadeSeconds,
+    setCrossfadeSeconds,
+    isGenerating,
+    stitchProgress,
+    stitchedVideo,
+    error,
+    addShot,
+    updateShot,
+    removeShot,
+    moveShot,
+    generate,
+    stitch,
+    cancel,
+  };
+};
@@ -0,0 +1,60 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { PriceTable, UsageBudget, UsageRecord } from '../types';
+import { findBudgetOverrun, formatCost, listUsage, loadBudget, loadPriceTable, saveBudget, savePriceTable, subscribeToUsage } from '../services/usageLedger';
+
+const PERIOD_LABELS: Record<UsageBudget['period'], string> = {
+  session: "this session's",
+  day: "today's",
+  month: "this month's",
+};
+
+// The usage ledger with the user's price table and budget. Records are
+// written by the job runner; this keeps a live copy for display and checks.
+export const useUsageLedger = () => {
+  const [records, setRecords] = useState<UsageRecord[]>([]);
+  const [prices, setPricesState] = useState<PriceTable>(loadPriceTable);
+  const [budget, setBudgetState] = useState<UsageBudget>(loadBudget);
+
+  useEffect(() => {
+    const refresh = () => {
+      listUsage()
+        .then(setRecords)
+        .catch(e => console.error("Could not load usage ledger", e));
+    };
+    refresh();
+    return subscribeToUsage(refresh);
+  }, []);
+
+  const setPrices = useCallback((next: PriceTable) => {
+    setPricesState(next);
+    try {
+      savePriceTable(next);
+    } catch (e) {
+      console.error("Could not save price table", e);
+    }
+  }, []);
+
+  const setBudget = useCallback((next: UsageBudget) => {
+    setBudgetState(next);
+    try {
+      saveBudget(next);
+    } catch (e) {
+      console.error("Could not save usage budget", e);
+    }
+  }, []);
+
+  // Whether to go ahead with a generation estimated at `cost`. Over budget,
+  // the user is asked to confirm or, with a hard limit, `onBlocked` is told why.
+  const approveSpend = useCallback((cost: number, onBlocked: (message: string) => void): boolean => {
+    const overrun = findBudgetOverrun(records, budget, cost);
+    if (!overrun) return true;
+    const message = `This would bring ${PERIOD_LABELS[budget.period]} estimated spend to ${formatCost(overrun.spent + cost)}, over your ${formatCost(overrun.limit)} budget.`;
+    if (budget.action === 'confirm') {
+      return window.confirm(`${message} Generate anyway?`);
+    }
+    onBlocked(message);
+    return false;
+  }, [records, budget]);
+
+  return { records, prices, setPrices, budget, setBudget, approveSpend };
+};
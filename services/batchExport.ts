@@ -0,0 +1,38 @@
+import type { BatchItem } from '../types';
+import { slugify, videoExtension } from './download';
+import { createZip } from './zip';
+import type { ZipEntry } from './zip';
+
+// Bundles every finished video plus a manifest.json describing all items,
+// including the ones that failed, so nothing silently drops out of a batch.
+export const exportBatchZip = async (items: BatchItem[]): Promise<Blob> => {
+  const entries: ZipEntry[] = [];
+  const manifestItems = items.map((item, index) => {
+    const number = String(index + 1).padStart(3, '0');
+    const file = item.video
+      ? `${number}-${slugify(item.image.name.replace(/\.[^.]+$/, ''))}-${item.aspectRatio.replace(':', 'x')}.${videoExtension(item.video.type)}`
+      : null;
+    if (file && item.video) {
+      entries.push({ name: `videos/${file}`, data: item.video });
+    }
+    return {
+      file: file && `videos/${file}`,
+      image: item.image.name,
+      prompt: item.prompt,
+      aspectRatio: item.aspectRatio,
+      model: item.model ?? null,
+      status: item.status,
+      attempts: item.attempts,
+      error: item.error ?? null,
+    };
+  });
+
+  const manifest = {
+    generator: 'Robo AI - Video Intro Creator',
+    exportedAt: new Date().toISOString(),
+    items: manifestItems,
+  };
+  entries.unshift({ name: 'manifest.json', data: JSON.stringify(manifest, null, 2) });
+
+  return createZip(entries);
+};
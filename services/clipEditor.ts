@@ -0,0 +1,38 @@
+import type { ClipEdit } from '../types';
+import { extractFrame, reencodeVideo } from './videoRecording';
+import type { ReencodeOptions } from './videoRecording';
+
+export const PLAYBACK_RATES = [0.5, 0.75, 1, 1.25, 1.5, 2];
+
+export const MIN_CLIP_SECONDS = 0.5;
+
+// Veo clips often open and close on a weak half-second.
+export const QUICK_TRIM_SECONDS = 0.5;
+
+export const DEFAULT_CLIP_EDIT: ClipEdit = { start: 0, end: null, playbackRate: 1 };
+
+export const clipEnd = (edit: ClipEdit, duration: number): number => edit.end ?? duration;
+
+export const isClipEdited = (edit: ClipEdit): boolean =>
+  edit.start > 0 || edit.end !== null || edit.playbackRate !== 1;
+
+// Length of the exported clip in seconds, after the speed change.
+export const editedDuration = (edit: ClipEdit, duration: number): number =>
+  (clipEnd(edit, duration) - edit.start) / edit.playbackRate;
+
+// Keeps the in and out points inside the clip and at least
+// `MIN_CLIP_SECONDS` apart. An out point at the very end becomes `null`.
+export const clampClipEdit = (edit: ClipEdit, duration: number): ClipEdit => {
+  const start = Math.min(Math.max(0, edit.start), Math.max(0, duration - MIN_CLIP_SECONDS));
+  const end = Math.min(Math.max(clipEnd(edit, duration), start + MIN_CLIP_SECONDS), duration);
+  return { ...edit, start, end: duration - end < 0.01 ? null : end };
+};
+
+export const trimClip = (video: Blob, edit: ClipEdit, options: Pick<ReencodeOptions, 'signal' | 'onProgress'> = {}): Promise<Blob> =>
+  reencodeVideo(video, { ...options, start: edit.start, end: edit.end ?? undefined, playbackRate: edit.playbackRate });
+
+// A full-size PNG of the frame at `time`, for use as a thumbnail.
+export const capturePosterFrame = async (video: Blob, time: number): Promise<Blob> => {
+  const dataUrl = await extractFrame(video, time, 'image/png');
+  return (await fetch(dataUrl)).blob();
+};
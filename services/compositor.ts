@@ -0,0 +1,158 @@
+import type { AspectRatio, ClipEdit, LogoOverlay, OverlayPosition, OverlaySettings, TextOverlay } from '../types';
+import { SAFE_AREAS } from '../constants';
+import { loadImageElement, reencodeVideo } from './videoRecording';
+
+export interface CompositeOptions {
+  // Trims and retimes the clip while burning in the overlays.
+  edit?: ClipEdit;
+  signal?: AbortSignal;
+  onProgress?: (fraction: number) => void;
+}
+
+const LINE_GAP = 0.3;
+
+export const hasOverlays = (settings: OverlaySettings): boolean =>
+  Boolean(settings.title.text.trim() || settings.subtitle.text.trim() || settings.logo);
+
+const getSafeRect = (width: number, height: number, aspectRatio: AspectRatio) => {
+  const inset = SAFE_AREAS[aspectRatio];
+  return {
+    x: width * inset.left,
+    y: height * inset.top,
+    width: width * (1 - inset.left - inset.right),
+    height: height * (1 - inset.top - inset.bottom),
+  };
+};
+
+// Font size in pixels, shrunk as needed so the line fits the safe width.
+const fitFontSize = (ctx: CanvasRenderingContext2D, overlay: TextOverlay, frameHeight: number, maxWidth: number): number => {
+  const size = (overlay.fontSizePercent / 100) * frameHeight;
+  ctx.font = `bold ${size}px ${overlay.fontFamily}`;
+  const width = ctx.measureText(overlay.text).width;
+  return width > maxWidth ? size * (maxWidth / width) : size;
+};
+
+const drawTextBlock = (
+  ctx: CanvasRenderingContext2D,
+  overlays: TextOverlay[],
+  position: OverlayPosition,
+  width: number,
+  height: number,
+  aspectRatio: AspectRatio
+) => {
+  const safe = getSafeRect(width, height, aspectRatio);
+  const lines = overlays.map(overlay => ({ overlay, size: fitFontSize(ctx, overlay, height, safe.width) }));
+  const blockHeight = lines.reduce((total, line, index) => total + line.size * (index > 0 ? 1 + LINE_GAP : 1), 0);
+
+  let y: number;
+  switch (position) {
+    case 'top':
+      y = safe.y;
+      break;
+    case 'lower-third':
+      y = height * (2 / 3);
+      break;
+    case 'bottom':
+      y = safe.y + safe.height - blockHeight;
+      break;
+    default:
+      y = height / 2 - blockHeight / 2;
+  }
+
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'top';
+  ctx.shadowColor = 'rgba(0, 0, 0, 0.6)';
+  ctx.shadowBlur = height * 0.01;
+  lines.forEach(({ overlay, size }, index) => {
+    if (index > 0) y += size * LINE_GAP;
+    ctx.font = `bold ${size}px ${overlay.fontFamily}`;
+    ctx.fillStyle = overlay.color;
+    ctx.fillText(overlay.text, width / 2, y);
+    y += size;
+  });
+  ctx.shadowColor = 'transparent';
+  ctx.shadowBlur = 0;
+};
+
+const getLogoOpacity = (logo: LogoOverlay, time: number, duration: number): number => {
+  const end = logo.endSeconds ?? duration;
+  if (time < logo.startSeconds || time > end) return 0;
+  if (logo.fadeSeconds <= 0) return 1;
+  return Math.min(1, (time - logo.startSeconds) / logo.fadeSeconds, (end - time) / logo.fadeSeconds);
+};
+
+const drawLogo = (
+  ctx: CanvasRenderingContext2D,
+  logo: LogoOverlay,
+  image: HTMLImageElement,
+  time: number,
+  duration: number,
+  width: number,
+  height: number,
+  aspectRatio: AspectRatio
+) => {
+  const opacity = getLogoOpacity(logo, time, duration);
+  if (opacity <= 0) return;
+
+  const safe = getSafeRect(width, height, aspectRatio);
+  const logoWidth = (logo.sizePercent / 100) * width;
+  const logoHeight = logoWidth * (image.naturalHeight / image.naturalWidth);
+  const x = logo.corner.endsWith('left') ? safe.x : safe.x + safe.width - logoWidth;
+  const y = logo.corner.startsWith('top') ? safe.y : safe.y + safe.height - logoHeight;
+
+  ctx.globalAlpha = opacity;
+  ctx.drawImage(image, x, y, logoWidth, logoHeight);
+  ctx.globalAlpha = 1;
+};
+
+// Draws the configured overlays for the frame at `time` on top of whatever is
+// already on the canvas. Shared by the live preview and the export.
+export const drawOverlays = (
+  ctx: CanvasRenderingContext2D,
+  settings: OverlaySettings,
+  aspectRatio: AspectRatio,
+  time: number,
+  duration: number,
+  logoImage: HTMLImageElement | null
+) => {
+  const { width, height } = ctx.canvas;
+  const texts = [settings.title, settings.subtitle].filter(overlay => overlay.text.trim());
+  const positions = [...new Set(texts.map(overlay => overlay.position))];
+  positions.forEach(position => {
+    drawTextBlock(ctx, texts.filter(overlay => overlay.position === position), position, width, height, aspectRatio);
+  });
+
+  if (settings.logo && logoImage) {
+    drawLogo(ctx, settings.logo, logoImage, time, duration, width, height, aspectRatio);
+  }
+};
+
+export const drawSafeAreaGuide = (ctx: CanvasRenderingContext2D, aspectRatio: AspectRatio) => {
+  const { width, height } = ctx.canvas;
+  const safe = getSafeRect(width, height, aspectRatio);
+  ctx.save();
+  ctx.strokeStyle = 'rgba(250, 204, 21, 0.9)';
+  ctx.lineWidth = Math.max(1, width / 400);
+  ctx.setLineDash([width / 80, width / 120]);
+  ctx.strokeRect(safe.x, safe.y, safe.width, safe.height);
+  ctx.restore();
+};
+
+// Re-renders `video` with the overlays burned in and returns the new file.
+// Rendering runs in real time, so it takes as long as the clip itself.
+export const compositeVideo = async (
+  video: Blob,
+  settings: OverlaySettings,
+  aspectRatio: AspectRatio,
+  { edit, signal, onProgress }: CompositeOptions = {}
+): Promise<Blob> => {
+  const logoImage = settings.logo ? await loadImageElement(settings.logo.image.dataUrl) : null;
+  return reencodeVideo(video, {
+    start: edit?.start,
+    end: edit?.end ?? undefined,
+    playbackRate: edit?.playbackRate,
+    signal,
+    onProgress,
+    decorate: (ctx, time, duration) => drawOverlays(ctx, settings, aspectRatio, time, duration, logoImage),
+  });
+};
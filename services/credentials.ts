@@ -0,0 +1,158 @@
+import type { CredentialSource, Credentials } from '../types';
+
+const API_KEY_STORAGE_KEY = 'robo-ai-api-key';
+const PROXY_URL_STORAGE_KEY = 'robo-ai-api-proxy-url';
+
+export type KeyPersistence = 'session' | 'local';
+
+// The bridge AI Studio injects when the app runs inside its sandbox.
+interface AIStudio {
+  hasSelectedApiKey: () => Promise<boolean>;
+  openSelectKey: () => Promise<void>;
+}
+
+const getAIStudio = (): AIStudio | undefined =>
+  typeof window === 'undefined' ? undefined : (window as any).aistudio;
+
+let activeSource: CredentialSource | null = null;
+let activeKey: string | null = null;
+let activeProxyUrl: string | null = null;
+
+const readStorage = (storage: Storage, key: string): string | null => {
+  try {
+    return storage.getItem(key);
+  } catch (e) {
+    console.error("Could not read saved credentials", e);
+    return null;
+  }
+};
+
+const normalizeProxyUrl = (url: string) => url.trim().replace(/\/+$/, '');
+
+// Set at build time with API_PROXY_URL (see vite.config.ts), or read from the
+// environment when running the CLI.
+export const getConfiguredProxyUrl = (): string => normalizeProxyUrl(process.env.API_PROXY_URL || '');
+
+export const hasAIStudioBridge = (): boolean => Boolean(getAIStudio());
+
+export const getCredentialSource = (): CredentialSource | null => activeSource;
+
+export const getStoredKeyPersistence = (): KeyPersistence | null => {
+  if (typeof localStorage === 'undefined') return null;
+  if (readStorage(localStorage, API_KEY_STORAGE_KEY)) return 'local';
+  if (readStorage(sessionStorage, API_KEY_STORAGE_KEY)) return 'session';
+  return null;
+};
+
+export const getSavedProxyUrl = (): string =>
+  typeof localStorage === 'undefined' ? '' : readStorage(localStorage, PROXY_URL_STORAGE_KEY) ?? '';
+
+// What API calls should use right now. Without an active source (e.g. in the
+// CLI) a configured proxy wins over the key from the environment.
+export const getCredentials = (): Credentials => {
+  switch (activeSource) {
+    case 'stored':
+      return { apiKey: activeKey ?? undefined };
+    case 'proxy':
+      return { baseUrl: activeProxyUrl ?? undefined };
+    case 'aistudio':
+    case 'environment':
+      // The AI Studio host injects the selected key into process.env at run time.
+      return { apiKey: process.env.API_KEY };
+    default: {
+      const proxyUrl = getConfiguredProxyUrl();
+      return proxyUrl ? { baseUrl: proxyUrl } : { apiKey: process.env.API_KEY };
+    }
+  }
+};
+
+const activateProxy = (url: string) => {
+  activeSource = 'proxy';
+  activeProxyUrl = normalizeProxyUrl(url);
+};
+
+// Picks the first source that can supply credentials without asking the user:
+// a configured proxy, a saved key or proxy, AI Studio, then a build-time key.
+export const restoreCredentials = async (): Promise<CredentialSource | null> => {
+  const configuredProxy = getConfiguredProxyUrl();
+  if (configuredProxy) {
+    activateProxy(configuredProxy);
+    return activeSource;
+  }
+  const persistence = getStoredKeyPersistence();
+  if (persistence) {
+    activeSource = 'stored';
+    activeKey = readStorage(persistence === 'local' ? localStorage : sessionStorage, API_KEY_STORAGE_KEY);
+    return activeSource;
+  }
+  const savedProxy = getSavedProxyUrl();
+  if (savedProxy) {
+    activateProxy(savedProxy);
+    return activeSource;
+  }
+  const aiStudio = getAIStudio();
+  if (aiStudio) {
+    try {
+      if (await aiStudio.hasSelectedApiKey()) {
+        activeSource = 'aistudio';
+        return activeSource;
+      }
+    } catch (e) {
+      console.error("Could not check for API key", e);
+    }
+  }
+  if (process.env.API_KEY) {
+    activeSource = 'environment';
+    return activeSource;
+  }
+  return null;
+};
+
+export const selectAIStudioKey = async (): Promise<void> => {
+  const aiStudio = getAIStudio();
+  if (!aiStudio) {
+    throw new Error('The AI Studio key picker is only available when the app runs inside AI Studio.');
+  }
+  await aiStudio.openSelectKey();
+  // Assume key selection is successful to avoid race conditions
+  activeSource = 'aistudio';
+};
+
+// Call once the key has been verified. A session key is gone when the tab closes.
+export const saveApiKey = (apiKey: string, persistence: KeyPersistence) => {
+  forgetCredentials();
+  (persistence === 'local' ? localStorage : sessionStorage).setItem(API_KEY_STORAGE_KEY, apiKey.trim());
+  activeSource = 'stored';
+  activeKey = apiKey.trim();
+};
+
+export const saveProxyUrl = (url: string) => {
+  forgetCredentials();
+  localStorage.setItem(PROXY_URL_STORAGE_KEY, normalizeProxyUrl(url));
+  activateProxy(url);
+};
+
+// Removes any saved key or proxy address from this browser.
+export const forgetCredentials = () => {
+  localStorage.removeItem(API_KEY_STORAGE_KEY);
+  sessionStorage.removeItem(API_KEY_STORAGE_KEY);
+  localStorage.removeItem(PROXY_URL_STORAGE_KEY);
+  activeSource = null;
+  activeKey = null;
+  activeProxyUrl = null;
+};
+
+export const describeCredentialSource = (source: CredentialSource | null): string => {
+  switch (source) {
+    case 'aistudio':
+      return 'the API key selected in AI Studio';
+    case 'stored':
+      return getStoredKeyPersistence() === 'local' ? 'the API key saved on this device' : 'the API key saved for this session';
+    case 'proxy':
+      return `the API proxy at ${activeProxyUrl}`;
+    case 'environment':
+      return 'the API key built into this deployment';
+    default:
+      return 'no credentials';
+  }
+};
@@ -0,0 +1,13 @@
+export const dataUrlToMimeAndBase64 = (dataUrl: string): { mimeType: string; base64: string } => {
+  const [header, base64] = dataUrl.split(',');
+  const mimeType = header.match(/:(.*?);/)?.[1] ?? 'application/octet-stream';
+  return { mimeType, base64 };
+};
+
+export const readFileAsDataUrl = (file: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
@@ -0,0 +1,63 @@
+const DB_NAME = 'robo-ai-video-intro-creator';
+const DB_VERSION = 3;
+
+export const JOBS_STORE = 'jobs';
+export const HISTORY_STORE = 'history';
+export const USAGE_STORE = 'usage';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(JOBS_STORE)) {
+          db.createObjectStore(JOBS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(HISTORY_STORE)) {
+          db.createObjectStore(HISTORY_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(USAGE_STORE)) {
+          db.createObjectStore(USAGE_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const withStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return requestToPromise(run(db.transaction(storeName, mode).objectStore(storeName)));
+};
+
+export const getAllRecords = <T>(storeName: string): Promise<T[]> =>
+  withStore<T[]>(storeName, 'readonly', store => store.getAll());
+
+export const getRecord = <T>(storeName: string, key: IDBValidKey): Promise<T | undefined> =>
+  withStore<T | undefined>(storeName, 'readonly', store => store.get(key));
+
+export const putRecord = async <T>(storeName: string, value: T): Promise<void> => {
+  await withStore(storeName, 'readwrite', store => store.put(value));
+};
+
+export const deleteRecord = async (storeName: string, key: IDBValidKey): Promise<void> => {
+  await withStore(storeName, 'readwrite', store => store.delete(key));
+};
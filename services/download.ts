@@ -0,0 +1,36 @@
+import type { AspectRatio } from '../types';
+
+export const videoExtension = (mimeType: string): string => (mimeType.includes('webm') ? 'webm' : 'mp4');
+
+export const slugify = (value: string): string =>
+  value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 40) || 'intro';
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+interface DownloadNameParts {
+  prompt: string;
+  aspectRatio: AspectRatio;
+  timestamp: number;
+  // Marks derived files, e.g. `trimmed` or `poster`.
+  suffix?: string;
+  extension: string;
+}
+
+// `robo-ai-neon-skyline-at-dusk-16x9-20260419-153012-trimmed.mp4`, in local time.
+export const buildDownloadName = ({ prompt, aspectRatio, timestamp, suffix, extension }: DownloadNameParts): string => {
+  const date = new Date(timestamp);
+  const stamp = `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}-${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`;
+  return ['robo-ai', slugify(prompt), aspectRatio.replace(':', 'x'), stamp, suffix].filter(Boolean).join('-') + `.${extension}`;
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a moment to start the download before releasing the blob.
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
@@ -0,0 +1,86 @@
+import type { GenerationErrorKind } from '../types';
+
+interface GenerationErrorOptions {
+  retryable?: boolean;
+  // Safety filter reasons, when the API gave any.
+  reasons?: string[];
+  cause?: unknown;
+}
+
+// A failure sorted into one of the classes the UI has guidance for.
+export class GenerationError extends Error {
+  readonly kind: GenerationErrorKind;
+  readonly retryable: boolean;
+  readonly reasons: string[];
+
+  constructor(kind: GenerationErrorKind, message: string, { retryable = false, reasons = [], cause }: GenerationErrorOptions = {}) {
+    super(message, { cause });
+    this.name = 'GenerationError';
+    this.kind = kind;
+    this.retryable = retryable;
+    this.reasons = reasons;
+  }
+}
+
+// An error carrying an HTTP status, for providers that talk to the network
+// directly; `classifyError` sorts it by status.
+export const createHttpError = (status: number, message: string): Error =>
+  Object.assign(new Error(message), { status });
+
+const INVALID_KEY_PATTERN = /API key not valid|API_KEY_INVALID|API key expired|Requested entity was not found|PERMISSION_DENIED/i;
+const QUOTA_PATTERN = /RESOURCE_EXHAUSTED|quota|rate limit/i;
+const TRANSIENT_PATTERN = /timed? ?out|overloaded/i;
+// Google API statuses for server-side failures, as in `"status": "INTERNAL"`.
+const TRANSIENT_API_STATUSES = ['INTERNAL', 'UNAVAILABLE', 'DEADLINE_EXCEEDED'];
+const SAFETY_PATTERN = /safety|responsible AI|usage guidelines|policy|blocked|sensitive/i;
+
+// API errors often wrap a JSON body; pull out its human-readable message.
+const readableMessage = (message: string): string =>
+  message.match(/"message":\s*"((?:[^"\\]|\\.)*)"/)?.[1].replace(/\\"/g, '"') ?? message;
+
+const apiStatus = (message: string): string | undefined =>
+  message.match(/"status":\s*"([A-Z_]+)"/)?.[1];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null;
+
+export const classifyError = (error: unknown, fallback: GenerationErrorKind = 'unknown'): GenerationError => {
+  if (error instanceof GenerationError) return error;
+
+  const raw = error instanceof Error ? error.message : String(error);
+  const message = readableMessage(raw);
+  const status = isRecord(error) && typeof error.status === 'number' ? error.status : undefined;
+
+  if (error instanceof TypeError && /fetch|network|load failed/i.test(raw)) {
+    return new GenerationError('network', 'Could not reach the video service.', { retryable: true, cause: error });
+  }
+  if (isRecord(error) && error.name === 'TimeoutError') {
+    return new GenerationError('network', 'The request to the video service timed out.', { retryable: true, cause: error });
+  }
+  if (status === 401 || status === 403 || INVALID_KEY_PATTERN.test(raw)) {
+    return new GenerationError('invalid-key', message, { cause: error });
+  }
+  if (status === 429 || QUOTA_PATTERN.test(raw)) {
+    return new GenerationError('quota', message, { retryable: true, cause: error });
+  }
+  const transient = (status !== undefined && status >= 500) || TRANSIENT_API_STATUSES.includes(apiStatus(raw) ?? '');
+  if (transient || TRANSIENT_PATTERN.test(raw)) {
+    return new GenerationError('network', message, { retryable: true, cause: error });
+  }
+  if (status === 400) {
+    return new GenerationError('invalid-request', message, { cause: error });
+  }
+  return new GenerationError(fallback, message, { cause: error });
+};
+
+// For an operation that finished with an error, or with every video withheld.
+// The messages go under the kind's title from ERROR_GUIDANCE, so they don't repeat it.
+export const classifyOperationFailure = (message: string | undefined, filteredReasons: string[] = []): GenerationError => {
+  if (filteredReasons.length > 0) {
+    return new GenerationError('safety', filteredReasons.join(' '), { reasons: filteredReasons });
+  }
+  if (message && SAFETY_PATTERN.test(message)) {
+    return new GenerationError('safety', readableMessage(message), { reasons: [readableMessage(message)] });
+  }
+  return new GenerationError('operation-failed', message ? readableMessage(message) : 'The service returned no video.');
+};
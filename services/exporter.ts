@@ -0,0 +1,141 @@
+import type { AspectRatio, ClipEdit, ExportPreset, FrameSize } from '../types';
+import { DEFAULT_CLIP_EDIT, editedDuration } from './clipEditor';
+import { videoExtension } from './download';
+import { encodeGif } from './gif';
+import { loadVideoElement, pickRecorderMimeType, reencodeVideo, releaseVideoElement, sampleFrames } from './videoRecording';
+import { createAnimatedWebp } from './webp';
+
+export interface ExportResult {
+  preset: ExportPreset;
+  blob?: Blob;
+  // Set when the file was made but is over the platform's size limit.
+  warning?: string;
+  error?: string;
+}
+
+export interface ExportOptions {
+  aspectRatio: AspectRatio;
+  edit?: ClipEdit;
+  signal?: AbortSignal;
+  // Overall progress across every preset, and the one being rendered.
+  onProgress?: (fraction: number, preset: ExportPreset) => void;
+}
+
+const AUDIO_BITS_PER_SECOND = 128_000;
+// Leave room for container overhead when sizing the bitrate to a file limit.
+const SIZE_LIMIT_HEADROOM = 0.9;
+const WEBP_QUALITY = 0.75;
+
+const WEBM_MIME_TYPES = ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm'];
+
+// `null` when the preset doesn't support the aspect ratio, `undefined` when it
+// keeps the clip's own size.
+export const getPresetSize = (preset: ExportPreset, aspectRatio: AspectRatio): FrameSize | null | undefined =>
+  preset.sizes ? preset.sizes[aspectRatio] ?? null : undefined;
+
+export const presetSupports = (preset: ExportPreset, aspectRatio: AspectRatio): boolean =>
+  getPresetSize(preset, aspectRatio) !== null;
+
+export const exportExtension = (preset: ExportPreset, blob: Blob): string =>
+  preset.format === 'gif' || preset.format === 'webp' ? preset.format : videoExtension(blob.type);
+
+export const formatBytes = (bytes: number): string =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.ceil(bytes / 1024)} KB`;
+
+const readDuration = async (video: Blob): Promise<number> => {
+  const element = await loadVideoElement(video);
+  try {
+    return element.duration;
+  } finally {
+    releaseVideoElement(element);
+  }
+};
+
+const canvasToWebp = (canvas: HTMLCanvasElement): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(blob => {
+      // Browsers without a WebP encoder quietly fall back to PNG.
+      if (blob?.type === 'image/webp') resolve(blob);
+      else reject(new Error('This browser cannot encode WebP images. Try Chrome, Edge or Firefox.'));
+    }, 'image/webp', WEBP_QUALITY);
+  });
+
+const renderPreset = async (
+  video: Blob,
+  preset: ExportPreset,
+  size: FrameSize | undefined,
+  length: number,
+  edit: ClipEdit,
+  signal: AbortSignal | undefined,
+  onProgress: (fraction: number) => void
+): Promise<Blob> => {
+  const timing = { start: edit.start, end: edit.end ?? undefined, playbackRate: edit.playbackRate, signal, onProgress };
+
+  if (preset.format === 'gif' || preset.format === 'webp') {
+    if (!size || !preset.fps) {
+      throw new Error(`${preset.label} needs a frame size and rate.`);
+    }
+    const fps = preset.fps;
+    if (preset.format === 'gif') {
+      const frames: ImageData[] = [];
+      await sampleFrames(video, { ...timing, ...size, fps }, canvas => {
+        frames.push(canvas.getContext('2d')!.getImageData(0, 0, size.width, size.height));
+      });
+      return encodeGif(frames, 1000 / fps);
+    }
+    const frames: Blob[] = [];
+    await sampleFrames(video, { ...timing, ...size, fps }, async canvas => {
+      frames.push(await canvasToWebp(canvas));
+    });
+    return createAnimatedWebp(frames, size.width, size.height, 1000 / fps);
+  }
+
+  // Stay under the upload limit even if that means a lower bitrate.
+  const limitBitrate = preset.maxBytes
+    ? (preset.maxBytes * 8 * SIZE_LIMIT_HEADROOM) / length - AUDIO_BITS_PER_SECOND
+    : Infinity;
+  const videoBitsPerSecond = Math.round(Math.min(preset.videoBitsPerSecond ?? Infinity, limitBitrate));
+  return reencodeVideo(video, {
+    ...timing,
+    ...size,
+    recorder: {
+      mimeType: preset.format === 'webm' ? pickRecorderMimeType(WEBM_MIME_TYPES) : pickRecorderMimeType(),
+      videoBitsPerSecond: Number.isFinite(videoBitsPerSecond) ? videoBitsPerSecond : undefined,
+    },
+  });
+};
+
+// Renders `video` for each preset in turn, applying `edit` to all of them. A
+// preset that fails doesn't stop the others; an abort stops everything.
+export const exportVideo = async (
+  video: Blob,
+  presets: ExportPreset[],
+  { aspectRatio, edit = DEFAULT_CLIP_EDIT, signal, onProgress }: ExportOptions
+): Promise<ExportResult[]> => {
+  const length = editedDuration(edit, await readDuration(video));
+  const results: ExportResult[] = [];
+
+  for (const [index, preset] of presets.entries()) {
+    const reportProgress = (fraction: number) => onProgress?.((index + fraction) / presets.length, preset);
+    reportProgress(0);
+    try {
+      const size = getPresetSize(preset, aspectRatio);
+      if (size === null) {
+        throw new Error(`${preset.label} doesn't support ${aspectRatio} video.`);
+      }
+      if (preset.maxSeconds && length > preset.maxSeconds) {
+        throw new Error(`${preset.label} allows at most ${preset.maxSeconds} seconds; trim the clip to fit.`);
+      }
+      const blob = await renderPreset(video, preset, size, length, edit, signal, reportProgress);
+      const warning = preset.maxBytes && blob.size > preset.maxBytes
+        ? `${formatBytes(blob.size)} is over the ${formatBytes(preset.maxBytes)} limit.`
+        : undefined;
+      results.push({ preset, blob, warning });
+    } catch (e: any) {
+      if (signal?.aborted) throw e;
+      console.error(e);
+      results.push({ preset, error: e?.message || 'The export failed.' });
+    }
+  }
+  return results;
+};
@@ -1,62 +1,181 @@
+import type { AspectRatio, GenerationOptions, VideoGenerationRequest, VideoOperation, VideoProvider } from '../types';
+import { getVideoProvider } from './providers';
+import { createDefaultGenerationOptions } from './generationOptions';
+import { GenerationError, classifyError, classifyOperationFailure } from './errors';
+import { SUGGESTION_COUNT } from './promptAssistant';
 
-import { GoogleGenAI } from '@google/genai';
-import type { AspectRatio } from '../types';
+export interface ServiceCallOptions {
+  provider?: VideoProvider;
+  signal?: AbortSignal;
+}
 
-const dataUrlToMimeAndBase64 = (dataUrl: string): { mimeType: string; base64: string } => {
-  const [header, base64] = dataUrl.split(',');
-  const mimeType = header.match(/:(.*?);/)?.[1] ?? 'application/octet-stream';
-  return { mimeType, base64 };
-};
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timeout = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timeout);
+      reject(signal!.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
 
-export const generateVideo = async (
-  prompt: string,
-  imageDataUrl: string,
-  aspectRatio: AspectRatio,
-  onProgress: (message: string) => void
-): Promise<string> => {
-  // A new instance must be created before each call to use the latest API key.
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
 
-  const { mimeType, base64: imageBase64 } = dataUrlToMimeAndBase64(imageDataUrl);
+const MAX_ATTEMPTS = 4;
+const BASE_RETRY_DELAY_MS = 2000;
+const MAX_RETRY_DELAY_MS = 30000;
 
-  onProgress('Sending request to the AI...');
+// Exponential backoff with jitter, so parallel jobs don't retry in lockstep.
+const retryDelay = (attempt: number): number =>
+  Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** (attempt - 1)) * (0.5 + Math.random() / 2);
+
+const describeRetry = (error: GenerationError): string =>
+  error.kind === 'quota' ? 'Rate limited by the API' : 'Connection problem';
+
+interface RetryOptions {
+  signal?: AbortSignal;
+  fallback: GenerationError['kind'];
+  // Narrows which retryable failures are retried, for calls that aren't idempotent.
+  shouldRetry?: (error: GenerationError) => boolean;
+}
 
-  let operation = await ai.models.generateVideos({
-    model: 'veo-3.1-fast-generate-preview',
-    prompt: prompt,
-    image: {
-      imageBytes: imageBase64,
-      mimeType: mimeType,
-    },
-    config: {
-      numberOfVideos: 1,
-      resolution: '720p',
-      aspectRatio: aspectRatio,
+// Runs `task`, retrying transient failures. Anything that is thrown comes out
+// classified, apart from aborts which pass through untouched.
+const withRetry = async <T>(
+  task: () => Promise<T>,
+  onProgress: (message: string) => void,
+  { signal, fallback, shouldRetry = () => true }: RetryOptions
+): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await task();
+    } catch (e) {
+      if (isAbortError(e)) throw e;
+      const error = classifyError(e, fallback);
+      if (!error.retryable || !shouldRetry(error) || attempt >= MAX_ATTEMPTS) throw error;
+      const delay = retryDelay(attempt);
+      onProgress(`${describeRetry(error)}; retrying in ${Math.ceil(delay / 1000)}s (attempt ${attempt + 1} of ${MAX_ATTEMPTS})...`);
+      await sleep(delay, signal);
     }
-  });
+  }
+};
 
-  onProgress('AI is warming up its creative engines...');
+// Submitting isn't idempotent: after a timeout or a 5xx the operation may
+// already exist and be billed, so only requests the API clearly turned away
+// (rate limits and quota) are retried.
+export const submitGeneration = (
+  request: VideoGenerationRequest,
+  onProgress: (message: string) => void,
+  { provider = getVideoProvider(), signal }: ServiceCallOptions = {}
+): Promise<VideoOperation> => withRetry(() => provider.submit(request), onProgress, {
+  signal,
+  fallback: 'unknown',
+  shouldRetry: error => error.kind === 'quota',
+});
 
+// Polls `operation` until it finishes and downloads every generated
+// candidate. Safe to call with an operation restored from storage after a
+// reload. Failures are thrown as `GenerationError`s.
+export const waitForVideos = async (
+  operation: VideoOperation,
+  onProgress: (message: string) => void,
+  { provider = getVideoProvider(), signal }: ServiceCallOptions = {}
+): Promise<Blob[]> => {
   let pollCount = 0;
   while (!operation.done) {
     pollCount++;
     onProgress(`Video generation in progress... (check #${pollCount})`);
-    await new Promise(resolve => setTimeout(resolve, 10000));
-    operation = await ai.operations.getVideosOperation({ operation: operation });
+    await sleep(provider.capabilities.pollIntervalMs, signal);
+    const pending = operation;
+    operation = await withRetry(() => provider.poll(pending, signal), onProgress, { signal, fallback: 'operation-failed' });
+  }
+
+  const videos = operation.videos ?? [];
+  if (operation.error || videos.length === 0) {
+    throw classifyOperationFailure(operation.error, operation.filteredReasons);
   }
 
-  onProgress('Video generation complete! Downloading...');
+  onProgress(videos.length > 1
+    ? `Video generation complete! Downloading ${videos.length} candidates...`
+    : 'Video generation complete! Downloading...');
+
+  const blobs: Blob[] = [];
+  for (const video of videos) {
+    blobs.push(await withRetry(() => provider.download(video, signal), onProgress, { signal, fallback: 'download-failed' }));
+  }
+  return blobs;
+};
+
+// One-shot generation without persistence; resolves with the first video.
+export const generateVideo = async (
+  prompt: string,
+  imageDataUrl: string,
+  aspectRatio: AspectRatio,
+  onProgress: (message: string) => void,
+  options: ServiceCallOptions & { generationOptions?: GenerationOptions } = {}
+): Promise<Blob> => {
+  const provider = options.provider ?? getVideoProvider();
+  const generationOptions = options.generationOptions ?? createDefaultGenerationOptions(provider);
+
+  onProgress('Sending request to the AI...');
+
+  const operation = await submitGeneration(
+    { prompt, imageDataUrl, aspectRatio, options: generationOptions },
+    onProgress,
+    { provider, signal: options.signal }
+  );
+  options.signal?.throwIfAborted();
+
+  onProgress('AI is warming up its creative engines...');
+
+  const [videoBlob] = await waitForVideos(operation, onProgress, { provider, signal: options.signal });
+  return videoBlob;
+};
 
-  const downloadLink = operation.response?.generatedVideos?.[0]?.video?.uri;
-  if (!downloadLink) {
-    throw new Error('Video generation failed: No download link found.');
+export const supportsPromptAssistance = (provider: VideoProvider = getVideoProvider()): boolean =>
+  Boolean(provider.suggestPrompts && provider.enhancePrompt);
+
+const ignoreProgress = () => {};
+
+// Prompts for animating the image, written by the provider's text model.
+export const suggestPrompts = async (
+  imageDataUrl: string,
+  aspectRatio: AspectRatio,
+  { provider = getVideoProvider(), signal, count = SUGGESTION_COUNT }: ServiceCallOptions & { count?: number } = {}
+): Promise<string[]> => {
+  const suggest = provider.suggestPrompts;
+  if (!suggest) {
+    throw new GenerationError('invalid-request', `${provider.label} cannot suggest prompts.`);
+  }
+  const suggestions = await withRetry(() => suggest({ imageDataUrl, aspectRatio, count, signal }), ignoreProgress, { signal, fallback: 'operation-failed' });
+  if (suggestions.length === 0) {
+    throw new GenerationError('operation-failed', 'The model returned no suggestions.');
   }
+  return suggestions;
+};
 
-  const videoResponse = await fetch(`${downloadLink}&key=${process.env.API_KEY}`);
-  if (!videoResponse.ok) {
-    throw new Error(`Failed to download video: ${videoResponse.statusText}`);
+// Rewrites a rough prompt into a detailed shot description, looking at the image when there is one.
+export const enhancePrompt = async (
+  prompt: string,
+  imageDataUrl: string | undefined,
+  aspectRatio: AspectRatio,
+  { provider = getVideoProvider(), signal }: ServiceCallOptions = {}
+): Promise<string> => {
+  const enhance = provider.enhancePrompt;
+  if (!enhance) {
+    throw new GenerationError('invalid-request', `${provider.label} cannot enhance prompts.`);
+  }
+  const enhanced = await withRetry(() => enhance({ prompt, imageDataUrl, aspectRatio, signal }), ignoreProgress, { signal, fallback: 'operation-failed' });
+  if (!enhanced) {
+    throw new GenerationError('operation-failed', 'The model returned an empty prompt.');
   }
-  const videoBlob = await videoResponse.blob();
-  
-  return URL.createObjectURL(videoBlob);
+  return enhanced;
 };
@@ -0,0 +1,67 @@
+import type { AspectRatio, GenerationOptions, VideoModelCapabilities, VideoProvider } from '../types';
+
+export const MAX_SEED = 4294967295;
+
+export const createDefaultGenerationOptions = (provider: VideoProvider): GenerationOptions => ({
+  model: provider.model,
+  resolution: '720p',
+  negativePrompt: '',
+  seed: null,
+  numberOfVideos: 1,
+  durationSeconds: null,
+  generateAudio: Boolean(getModelCapabilities(provider, provider.model)?.supportsAudio),
+});
+
+export const getModelCapabilities = (provider: VideoProvider, modelId: string): VideoModelCapabilities | undefined =>
+  provider.capabilities.models.find(model => model.id === modelId);
+
+export const randomSeed = (): number => Math.floor(Math.random() * (MAX_SEED + 1));
+
+// Returns a list of human-readable problems; an empty list means the options
+// can be submitted as they are.
+export const validateGenerationOptions = (
+  options: GenerationOptions,
+  aspectRatio: AspectRatio,
+  provider: VideoProvider
+): string[] => {
+  const model = getModelCapabilities(provider, options.model);
+  if (!model) {
+    return [`${provider.label} does not offer the model "${options.model}".`];
+  }
+
+  const errors: string[] = [];
+  if (!provider.capabilities.aspectRatios.includes(aspectRatio)) {
+    errors.push(`${provider.label} cannot render ${aspectRatio} videos.`);
+  }
+  if (!model.resolutions.includes(options.resolution)) {
+    errors.push(`${model.label} cannot render ${options.resolution}; choose ${model.resolutions.join(' or ')}.`);
+  }
+  if (options.durationSeconds !== null && !model.durations.includes(options.durationSeconds)) {
+    errors.push(`${model.label} supports clip lengths of ${model.durations.join(', ')} seconds.`);
+  }
+  if (options.resolution === '1080p' && model.fullHdDurations) {
+    const duration = options.durationSeconds;
+    if (duration === null || !model.fullHdDurations.includes(duration)) {
+      errors.push(`${model.label} only renders 1080p at ${model.fullHdDurations.join(' or ')} seconds; set the duration explicitly.`);
+    }
+  }
+  if (!Number.isInteger(options.numberOfVideos) || options.numberOfVideos < 1 || options.numberOfVideos > model.maxVideos) {
+    errors.push(model.maxVideos === 1
+      ? `${model.label} generates one video per request.`
+      : `${model.label} generates between 1 and ${model.maxVideos} videos per request.`);
+  }
+  if (options.seed !== null) {
+    if (!model.supportsSeed) {
+      errors.push(`${model.label} does not support a fixed seed.`);
+    } else if (!Number.isInteger(options.seed) || options.seed < 0 || options.seed > MAX_SEED) {
+      errors.push(`The seed must be a whole number between 0 and ${MAX_SEED}.`);
+    }
+  }
+  if (options.generateAudio && !model.supportsAudio) {
+    errors.push(`${model.label} cannot generate audio on request; turn audio off.`);
+  }
+  if (options.negativePrompt.trim() && !model.supportsNegativePrompt) {
+    errors.push(`${model.label} does not support negative prompts.`);
+  }
+  return errors;
+};
@@ -0,0 +1,205 @@
+// Minimal animated GIF encoder. All frames share one 255-colour palette built
+// by median cut, so colours don't flicker between frames. Pixels that didn't
+// change since the previous frame are left transparent, which keeps the file
+// small for mostly static intros.
+
+const PALETTE_SIZE = 255;
+const TRANSPARENT_INDEX = 255;
+const MAX_PALETTE_SAMPLES = 60000;
+const MIN_CODE_SIZE = 8;
+const MAX_CODE = 4096;
+
+const channel = (color: number, shift: number) => (color >> shift) & 0xff;
+
+const buildPalette = (frames: ImageData[]): number[] => {
+  const total = frames.reduce((sum, frame) => sum + frame.width * frame.height, 0);
+  const step = Math.max(1, Math.floor(total / MAX_PALETTE_SAMPLES));
+  const samples: number[] = [];
+  let position = 0;
+  for (const frame of frames) {
+    const pixels = frame.data;
+    for (let i = position; i < frame.width * frame.height; i += step) {
+      samples.push((pixels[i * 4] << 16) | (pixels[i * 4 + 1] << 8) | pixels[i * 4 + 2]);
+    }
+    position = (position + frame.width * frame.height) % step;
+  }
+
+  // Repeatedly split the box with the widest channel range at its median.
+  const boxes: number[][] = [samples];
+  while (boxes.length < PALETTE_SIZE) {
+    let widest = -1;
+    let widestRange = 0;
+    let widestShift = 0;
+    boxes.forEach((box, index) => {
+      if (box.length < 2) return;
+      for (const shift of [16, 8, 0]) {
+        let min = 255;
+        let max = 0;
+        for (const color of box) {
+          const value = channel(color, shift);
+          if (value < min) min = value;
+          if (value > max) max = value;
+        }
+        if (max - min > widestRange) {
+          widest = index;
+          widestRange = max - min;
+          widestShift = shift;
+        }
+      }
+    });
+    if (widest < 0) break;
+    const box = boxes[widest].sort((a, b) => channel(a, widestShift) - channel(b, widestShift));
+    const middle = box.length >> 1;
+    boxes.splice(widest, 1, box.slice(0, middle), box.slice(middle));
+  }
+
+  return boxes.filter(box => box.length > 0).map(box => {
+    let r = 0;
+    let g = 0;
+    let b = 0;
+    for (const color of box) {
+      r += channel(color, 16);
+      g += channel(color, 8);
+      b += channel(color, 0);
+    }
+    return (Math.round(r / box.length) << 16) | (Math.round(g / box.length) << 8) | Math.round(b / box.length);
+  });
+};
+
+// Nearest palette entry, cached per 15-bit colour.
+const createColorMapper = (palette: number[]) => {
+  const cache = new Int16Array(32768).fill(-1);
+  return (r: number, g: number, b: number): number => {
+    const key = ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+    let index = cache[key];
+    if (index < 0) {
+      let best = Infinity;
+      palette.forEach((color, candidate) => {
+        const dr = channel(color, 16) - r;
+        const dg = channel(color, 8) - g;
+        const db = channel(color, 0) - b;
+        const distance = dr * dr * 2 + dg * dg * 4 + db * db * 3;
+        if (distance < best) {
+          best = distance;
+          index = candidate;
+        }
+      });
+      cache[key] = index;
+    }
+    return index;
+  };
+};
+
+const lzwEncode = (indices: Uint8Array): number[] => {
+  const clearCode = 1 << MIN_CODE_SIZE;
+  const endCode = clearCode + 1;
+  let codeSize = MIN_CODE_SIZE + 1;
+  let nextCode = endCode + 1;
+  const table = new Map<number, number>();
+  const bytes: number[] = [];
+  let buffer = 0;
+  let bitCount = 0;
+
+  const emit = (code: number) => {
+    buffer |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      bytes.push(buffer & 0xff);
+      buffer >>>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  emit(clearCode);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const key = (prefix << 8) | indices[i];
+    const code = table.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+    emit(prefix);
+    if (nextCode === MAX_CODE) {
+      emit(clearCode);
+      table.clear();
+      codeSize = MIN_CODE_SIZE + 1;
+      nextCode = endCode + 1;
+    } else {
+      if (nextCode >= 1 << codeSize) codeSize++;
+      table.set(key, nextCode++);
+    }
+    prefix = indices[i];
+  }
+  emit(prefix);
+  emit(endCode);
+  if (bitCount > 0) bytes.push(buffer & 0xff);
+  return bytes;
+};
+
+// `frames` must all have the same size. `loop` 0 repeats forever.
+export const encodeGif = (frames: ImageData[], frameDelayMs: number, loop = 0): Blob => {
+  if (frames.length === 0) {
+    throw new Error('A GIF needs at least one frame.');
+  }
+  const { width, height } = frames[0];
+  const palette = buildPalette(frames);
+  const mapColor = createColorMapper(palette);
+  const parts: Uint8Array[] = [];
+  const bytes: number[] = [];
+  const word = (value: number) => bytes.push(value & 0xff, (value >> 8) & 0xff);
+
+  bytes.push(...[...'GIF89a'].map(char => char.charCodeAt(0)));
+  word(width);
+  word(height);
+  bytes.push(0xf7, 0, 0); // 256-entry global colour table
+  for (let i = 0; i < 256; i++) {
+    const color = palette[i] ?? 0;
+    bytes.push(channel(color, 16), channel(color, 8), channel(color, 0));
+  }
+  bytes.push(0x21, 0xff, 0x0b, ...[...'NETSCAPE2.0'].map(char => char.charCodeAt(0)), 0x03, 0x01);
+  word(loop);
+  bytes.push(0);
+  parts.push(new Uint8Array(bytes));
+
+  let previous: Uint8Array | null = null;
+  frames.forEach((frame, frameIndex) => {
+    const indices = new Uint8Array(width * height);
+    const pixels = frame.data;
+    for (let i = 0; i < indices.length; i++) {
+      indices[i] = mapColor(pixels[i * 4], pixels[i * 4 + 1], pixels[i * 4 + 2]);
+    }
+    const encoded = indices.slice();
+    if (previous) {
+      for (let i = 0; i < indices.length; i++) {
+        if (indices[i] === previous[i]) encoded[i] = TRANSPARENT_INDEX;
+      }
+    }
+    previous = indices;
+
+    // Spread rounding to whole centiseconds across frames so the total length stays right.
+    const delay = Math.round(((frameIndex + 1) * frameDelayMs) / 10) - Math.round((frameIndex * frameDelayMs) / 10);
+    const header: number[] = [];
+    const headerWord = (value: number) => header.push(value & 0xff, (value >> 8) & 0xff);
+    header.push(0x21, 0xf9, 0x04, 0x05); // keep the previous frame, transparency on
+    headerWord(delay);
+    header.push(TRANSPARENT_INDEX, 0, 0x2c);
+    headerWord(0);
+    headerWord(0);
+    headerWord(width);
+    headerWord(height);
+    header.push(0, MIN_CODE_SIZE);
+
+    const data = lzwEncode(encoded);
+    const blocks: number[] = [];
+    for (let offset = 0; offset < data.length; offset += 255) {
+      const block = data.slice(offset, offset + 255);
+      blocks.push(block.length, ...block);
+    }
+    blocks.push(0);
+    parts.push(new Uint8Array(header), new Uint8Array(blocks));
+  });
+
+  parts.push(new Uint8Array([0x3b]));
+  return new Blob(parts, { type: 'image/gif' });
+};
@@ -0,0 +1,27 @@
+import type { GenerationJob, HistoryEntry } from '../types';
+import { HISTORY_STORE, deleteRecord, getAllRecords, putRecord } from './db';
+
+// `index` distinguishes the candidates when a job produced more than one video.
+export const createHistoryEntry = (job: GenerationJob, video: Blob, index?: number): HistoryEntry => ({
+  id: index === undefined ? job.id : `${job.id}-${index}`,
+  video,
+  image: job.image,
+  prompt: job.prompt,
+  aspectRatio: job.aspectRatio,
+  providerId: job.providerId,
+  model: job.model,
+  operationName: job.operationName,
+  options: job.options,
+  submittedAt: job.createdAt,
+  completedAt: Date.now(),
+});
+
+export const saveHistoryEntry = (entry: HistoryEntry): Promise<void> => putRecord(HISTORY_STORE, entry);
+
+// Newest first.
+export const listHistory = async (): Promise<HistoryEntry[]> => {
+  const entries = await getAllRecords<HistoryEntry>(HISTORY_STORE);
+  return entries.sort((a, b) => b.completedAt - a.completedAt);
+};
+
+export const deleteHistoryEntry = (id: string): Promise<void> => deleteRecord(HISTORY_STORE, id);
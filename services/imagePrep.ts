@@ -0,0 +1,210 @@
+import type { AspectRatio, CropRect, ImageFile } from '../types';
+import { dataUrlToMimeAndBase64 } from './dataUrl';
+import { loadImageElement } from './videoRecording';
+
+export const MAX_IMAGE_FILE_BYTES = 25 * 1024 * 1024;
+// Inline image bytes sent with a generation request.
+export const MAX_UPLOAD_IMAGE_BYTES = 10 * 1024 * 1024;
+export const MIN_IMAGE_EDGE = 256;
+
+// The largest start frame worth sending; anything bigger is downscaled.
+const MAX_INPUT_SIZE: Record<AspectRatio, { width: number; height: number }> = {
+  '16:9': { width: 1920, height: 1080 },
+  '9:16': { width: 1080, height: 1920 },
+};
+const MAX_INPUT_EDGE = 1920;
+// Upper bound for the decoded source kept around for cropping.
+const MAX_SOURCE_EDGE = 4096;
+
+const UPLOAD_MIME_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+// Formats that may carry transparency or flat colour are re-encoded as PNG, photos as JPEG.
+const PNG_SOURCE_TYPES = ['image/png', 'image/gif', 'image/svg+xml', 'image/webp', 'image/bmp'];
+const HEIC_PATTERN = /\.(heic|heif)$/i;
+
+// A decoded, upright copy of an uploaded image. Drawing it onto a canvas
+// applies the EXIF orientation and leaves the rest of the metadata behind.
+export interface SourceImage {
+  name: string;
+  canvas: HTMLCanvasElement;
+  outputType: 'image/png' | 'image/jpeg';
+}
+
+const isHeic = (file: File) => file.type === 'image/heic' || file.type === 'image/heif' || HEIC_PATTERN.test(file.name);
+
+const formatMegabytes = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(bytes < 10 * 1024 * 1024 ? 1 : 0)} MB`;
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Could not create a canvas to prepare the image.');
+  }
+  return { canvas, ctx };
+};
+
+const loadBlobImage = async (blob: Blob): Promise<HTMLImageElement> => {
+  const url = URL.createObjectURL(blob);
+  try {
+    return await loadImageElement(url);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+// Only Safari decodes HEIC natively. Elsewhere the photo is converted to JPEG
+// with libheif, which is large, so it's only fetched the first time it's needed.
+const convertHeic = async (file: File): Promise<Blob> => {
+  const { default: heic2any } = await import('heic2any');
+  const converted = await heic2any({ blob: file, toType: 'image/jpeg', quality: 0.92 });
+  return Array.isArray(converted) ? converted[0] : converted;
+};
+
+// Returns a message explaining why `file` can't be used, or null if it's worth decoding.
+export const validateImageFile = (file: File): string | null => {
+  if (!file.type.startsWith('image/') && !isHeic(file)) {
+    return `"${file.name}" is not an image.`;
+  }
+  if (file.size > MAX_IMAGE_FILE_BYTES) {
+    return `"${file.name}" is ${formatMegabytes(file.size)}; images must be ${formatMegabytes(MAX_IMAGE_FILE_BYTES)} or smaller.`;
+  }
+  if (file.size === 0) {
+    return `"${file.name}" is empty.`;
+  }
+  return null;
+};
+
+export const loadSourceImage = async (file: File): Promise<SourceImage> => {
+  const problem = validateImageFile(file);
+  if (problem) {
+    throw new Error(problem);
+  }
+
+  let element: HTMLImageElement;
+  try {
+    element = await loadBlobImage(file);
+  } catch {
+    if (!isHeic(file)) {
+      throw new Error(`"${file.name}" could not be read. The file may be damaged or in an unsupported format.`);
+    }
+    try {
+      element = await loadBlobImage(await convertHeic(file));
+    } catch (e) {
+      console.error("Could not convert HEIC photo", e);
+      throw new Error(`"${file.name}" could not be converted from HEIC. The file may be damaged; try exporting it as JPEG.`);
+    }
+  }
+
+  let width = element.naturalWidth;
+  let height = element.naturalHeight;
+  const isSvg = file.type === 'image/svg+xml';
+  if (!width || !height) {
+    throw new Error(`"${file.name}" has no size${isSvg ? '; add width and height attributes to the SVG' : ''}.`);
+  }
+  // Vector art can be rasterised at any size, so render it as large as we'd ever send.
+  const scale = isSvg
+    ? MAX_INPUT_EDGE / Math.max(width, height)
+    : Math.min(1, MAX_SOURCE_EDGE / Math.max(width, height));
+  width = Math.round(width * scale);
+  height = Math.round(height * scale);
+  if (Math.min(width, height) < MIN_IMAGE_EDGE) {
+    throw new Error(`"${file.name}" is ${width}×${height}; images need to be at least ${MIN_IMAGE_EDGE} pixels on each side.`);
+  }
+
+  const { canvas, ctx } = createCanvas(width, height);
+  ctx.drawImage(element, 0, 0, width, height);
+  return {
+    name: file.name,
+    canvas,
+    outputType: PNG_SOURCE_TYPES.includes(file.type) ? 'image/png' : 'image/jpeg',
+  };
+};
+
+const aspectValue = (aspect: AspectRatio) => (aspect === '16:9' ? 16 / 9 : 9 / 16);
+
+// The largest crop with the given aspect ratio, centred in the image.
+export const createCenteredCrop = (width: number, height: number, aspect: AspectRatio): CropRect => {
+  const ratio = aspectValue(aspect);
+  const cropWidth = Math.min(width, height * ratio);
+  const cropHeight = cropWidth / ratio;
+  return { x: (width - cropWidth) / 2, y: (height - cropHeight) / 2, width: cropWidth, height: cropHeight };
+};
+
+// Keeps the crop's size within the image and moves it back inside the edges.
+export const clampCrop = (crop: CropRect, width: number, height: number): CropRect => {
+  const scale = Math.min(1, width / crop.width, height / crop.height);
+  const cropWidth = crop.width * scale;
+  const cropHeight = crop.height * scale;
+  return {
+    x: Math.min(Math.max(crop.x, 0), width - cropWidth),
+    y: Math.min(Math.max(crop.y, 0), height - cropHeight),
+    width: cropWidth,
+    height: cropHeight,
+  };
+};
+
+const outputName = (name: string, type: SourceImage['outputType']) =>
+  `${name.replace(/\.[^.]+$/, '') || 'image'}.${type === 'image/png' ? 'png' : 'jpg'}`;
+
+const encode = (canvas: HTMLCanvasElement, type: SourceImage['outputType']) =>
+  canvas.toDataURL(type, type === 'image/jpeg' ? 0.92 : undefined);
+
+// Cuts `crop` out of the source and scales it down to the model's input size.
+export const renderCroppedImage = (source: SourceImage, crop: CropRect, aspect: AspectRatio): ImageFile => {
+  const limit = MAX_INPUT_SIZE[aspect];
+  const scale = Math.min(1, limit.width / crop.width, limit.height / crop.height);
+  const { canvas, ctx } = createCanvas(Math.round(crop.width * scale), Math.round(crop.height * scale));
+  ctx.drawImage(source.canvas, crop.x, crop.y, crop.width, crop.height, 0, 0, canvas.width, canvas.height);
+  return {
+    id: Date.now().toString(),
+    dataUrl: encode(canvas, source.outputType),
+    name: outputName(source.name, source.outputType),
+  };
+};
+
+// For uploads without an interactive crop (batch and storyboard images):
+// validates, converts, strips metadata and downscales, keeping the full frame.
+export const prepareImageFile = async (file: File): Promise<ImageFile> => {
+  const source = await loadSourceImage(file);
+  const scale = Math.min(1, MAX_INPUT_EDGE / Math.max(source.canvas.width, source.canvas.height));
+  const { canvas, ctx } = createCanvas(Math.round(source.canvas.width * scale), Math.round(source.canvas.height * scale));
+  ctx.drawImage(source.canvas, 0, 0, canvas.width, canvas.height);
+  return {
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    dataUrl: encode(canvas, source.outputType),
+    name: outputName(source.name, source.outputType),
+  };
+};
+
+// Centre-crops an already prepared image to `aspect`, so the model isn't
+// handed a frame it would letterbox. Images that already fit are returned as is.
+export const cropImageToAspect = async (image: ImageFile, aspect: AspectRatio): Promise<ImageFile> => {
+  const element = await loadImageElement(image.dataUrl);
+  const { naturalWidth: width, naturalHeight: height } = element;
+  const limit = MAX_INPUT_SIZE[aspect];
+  if (Math.abs(width / height - aspectValue(aspect)) < 0.01 && width <= limit.width && height <= limit.height) {
+    return image;
+  }
+  const { mimeType } = dataUrlToMimeAndBase64(image.dataUrl);
+  const { canvas, ctx } = createCanvas(width, height);
+  ctx.drawImage(element, 0, 0);
+  const source: SourceImage = { name: image.name, canvas, outputType: mimeType === 'image/jpeg' ? 'image/jpeg' : 'image/png' };
+  return { ...renderCroppedImage(source, createCenteredCrop(width, height, aspect), aspect), id: image.id };
+};
+
+// Last check before an image is sent; returns human-readable problems.
+export const validateUploadImage = (image: ImageFile): string[] => {
+  const { mimeType, base64 } = dataUrlToMimeAndBase64(image.dataUrl);
+  const errors: string[] = [];
+  if (!UPLOAD_MIME_TYPES.includes(mimeType)) {
+    errors.push(`"${image.name}" is ${mimeType}; the start image must be PNG, JPEG or WEBP.`);
+  }
+  const bytes = Math.floor((base64?.length ?? 0) * 3 / 4);
+  if (bytes === 0) {
+    errors.push(`"${image.name}" is empty.`);
+  } else if (bytes > MAX_UPLOAD_IMAGE_BYTES) {
+    errors.push(`"${image.name}" is ${formatMegabytes(bytes)}; the start image must be ${formatMegabytes(MAX_UPLOAD_IMAGE_BYTES)} or smaller.`);
+  }
+  return errors;
+};
@@ -0,0 +1,101 @@
+import type { GenerationJob, GenerationOptions, VideoOperation, VideoProvider } from '../types';
+import { isAbortError, submitGeneration, waitForVideos } from './geminiService';
+import { createDefaultGenerationOptions, validateGenerationOptions } from './generationOptions';
+import { validateUploadImage } from './imagePrep';
+import { GenerationError, classifyError } from './errors';
+import { removeJob, saveJob } from './jobStore';
+import { getVideoProvider } from './providers';
+import { recordOutcome, recordSubmission } from './usageLedger';
+
+export interface JobRequest {
+  prompt: string;
+  image: GenerationJob['image'];
+  aspectRatio: GenerationJob['aspectRatio'];
+  // Defaults to the active provider's default settings.
+  options?: GenerationOptions;
+}
+
+interface RunJobOptions {
+  resume?: boolean;
+  // Keep the job in IndexedDB while it runs so it can resume after a reload,
+  // and record it in the usage ledger. Off for callers without a browser,
+  // such as the CLI.
+  persist?: boolean;
+  signal?: AbortSignal;
+  onProgress: (message: string) => void;
+}
+
+export const createGenerationJob = (
+  { prompt, image, aspectRatio, options }: JobRequest,
+  provider: VideoProvider = getVideoProvider()
+): GenerationJob => {
+  const now = Date.now();
+  const jobOptions = options ?? createDefaultGenerationOptions(provider);
+  return {
+    id: `${now}-${Math.random().toString(36).slice(2, 8)}`,
+    providerId: provider.id,
+    model: jobOptions.model,
+    operationName: '',
+    prompt,
+    image,
+    aspectRatio,
+    options: jobOptions,
+    createdAt: now,
+  };
+};
+
+// Submits `job` (or, with `resume`, picks up its existing operation), persists
+// it while in flight and resolves with the downloaded videos, one per
+// requested candidate. Options the model can't handle, and start images the
+// API won't accept, are rejected before anything is submitted. The persisted
+// record is dropped once the job finishes, fails or is aborted by the signal.
+// Every submitted operation gets a usage ledger entry, updated with how it
+// ended, including one cancelled while it was being submitted.
+export const runGenerationJob = async (
+  job: GenerationJob,
+  { resume = false, persist = true, signal, onProgress }: RunJobOptions
+): Promise<{ job: GenerationJob; videos: Blob[] }> => {
+  try {
+    const provider = getVideoProvider(job.providerId);
+    let operation: VideoOperation;
+    if (resume) {
+      operation = { name: job.operationName, done: false };
+    } else {
+      const problems = [
+        ...validateGenerationOptions(job.options, job.aspectRatio, provider),
+        ...validateUploadImage(job.image),
+      ];
+      if (problems.length > 0) {
+        throw new GenerationError('invalid-request', problems.join(' '));
+      }
+      onProgress('Sending request to the AI...');
+      operation = await submitGeneration(
+        { prompt: job.prompt, imageDataUrl: job.image.dataUrl, aspectRatio: job.aspectRatio, options: job.options },
+        onProgress,
+        { provider, signal }
+      );
+      job = { ...job, operationName: operation.name };
+      // The operation exists and is billed even if the user cancelled meanwhile.
+      if (persist) {
+        await saveJob(job).catch(e => console.error("Could not persist generation job", e));
+        await recordSubmission(job, provider).catch(e => console.error("Could not record usage", e));
+      }
+      signal?.throwIfAborted();
+      onProgress('AI is warming up its creative engines...');
+    }
+
+    const videos = await waitForVideos(operation, onProgress, { provider, signal });
+    if (persist) {
+      await removeJob(job.id).catch(e => console.error("Could not remove finished generation job", e));
+      await recordOutcome(job.id, 'succeeded').catch(e => console.error("Could not record usage", e));
+    }
+    return { job, videos };
+  } catch (e) {
+    if (persist) {
+      await removeJob(job.id).catch(err => console.error("Could not remove unfinished generation job", err));
+      const outcome = isAbortError(e) ? recordOutcome(job.id, 'cancelled') : recordOutcome(job.id, 'failed', classifyError(e).kind);
+      await outcome.catch(err => console.error("Could not record usage", err));
+    }
+    throw e;
+  }
+};
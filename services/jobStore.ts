@@ -0,0 +1,11 @@
+import type { GenerationJob } from '../types';
+import { JOBS_STORE, deleteRecord, getAllRecords, putRecord } from './db';
+
+export const saveJob = (job: GenerationJob): Promise<void> => putRecord(JOBS_STORE, job);
+
+export const listJobs = async (): Promise<GenerationJob[]> => {
+  const jobs = await getAllRecords<GenerationJob>(JOBS_STORE);
+  return jobs.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const removeJob = (id: string): Promise<void> => deleteRecord(JOBS_STORE, id);
@@ -0,0 +1,344 @@
+import type {
+  AspectRatio,
+  ClipEdit,
+  CropRect,
+  GenerationOptions,
+  HistoryEntry,
+  ImageFile,
+  LogoCorner,
+  LogoOverlay,
+  OverlayPosition,
+  OverlaySettings,
+  TextOverlay,
+  VideoProvider,
+} from '../types';
+import { DEFAULT_OVERLAY_SETTINGS } from '../constants';
+import { DEFAULT_CLIP_EDIT, PLAYBACK_RATES } from './clipEditor';
+import { readFileAsDataUrl } from './dataUrl';
+import { videoExtension } from './download';
+import { createDefaultGenerationOptions, getModelCapabilities } from './generationOptions';
+import { loadSourceImage } from './imagePrep';
+import type { SourceImage } from './imagePrep';
+import { getVideoProvider } from './providers';
+import { createZip, readZip } from './zip';
+import type { ZipEntry } from './zip';
+
+// Everything on the single-video form, so a designer can hand an intro to an
+// editor and pick it up exactly where they left off.
+export interface IntroProject {
+  prompt: string;
+  aspectRatio: AspectRatio;
+  image: ImageFile | null;
+  // The uncropped upload and the crop taken from it, so the crop can still be adjusted.
+  source: SourceImage | null;
+  crop: CropRect | null;
+  options: GenerationOptions;
+  overlay: OverlaySettings;
+  clipEdit: ClipEdit;
+  result: HistoryEntry | null;
+}
+
+export const PROJECT_FORMAT = 'robo-ai-intro-project';
+export const PROJECT_VERSION = 1;
+const MANIFEST_FILE = 'project.json';
+
+// On disk, images and videos are files in the archive referenced by path.
+interface ImageRef {
+  name: string;
+  file: string;
+}
+
+interface ProjectManifest {
+  format: string;
+  version: number;
+  savedAt: string;
+  prompt: string;
+  aspectRatio: AspectRatio;
+  image: ImageRef | null;
+  source: (ImageRef & { crop: CropRect }) | null;
+  options: GenerationOptions;
+  overlay: Omit<OverlaySettings, 'logo'> & { logo: (Omit<LogoOverlay, 'image'> & { image: ImageRef }) | null };
+  clipEdit: ClipEdit;
+  result: (Omit<HistoryEntry, 'video' | 'image' | 'operationName'> & { file: string; image: ImageRef; operationName: string | null }) | null;
+}
+
+type Manifest = Record<string, unknown>;
+
+// Upgrades a manifest saved by an older version one step at a time; the step
+// at index n turns version n + 1 into version n + 2. Add one whenever
+// PROJECT_VERSION goes up.
+const MIGRATIONS: Array<(manifest: Manifest) => Manifest> = [];
+
+const ASPECT_RATIOS: AspectRatio[] = ['16:9', '9:16'];
+const OVERLAY_POSITIONS: OverlayPosition[] = ['top', 'center', 'lower-third', 'bottom'];
+const LOGO_CORNERS: LogoCorner[] = ['top-left', 'top-right', 'bottom-left', 'bottom-right'];
+
+const MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  webp: 'image/webp',
+  mp4: 'video/mp4',
+  webm: 'video/webm',
+};
+
+const imageExtension = (mimeType: string): string =>
+  Object.keys(MIME_TYPES).find(extension => MIME_TYPES[extension] === mimeType) ?? 'png';
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not encode the source image.'))), type);
+  });
+
+export const serializeProject = async (project: IntroProject): Promise<Blob> => {
+  const entries: ZipEntry[] = [];
+  // The same picture is often both the start frame and the result's image.
+  const imagePaths = new Map<string, string>();
+  const addImage = async (image: ImageFile): Promise<ImageRef> => {
+    let file = imagePaths.get(image.dataUrl);
+    if (!file) {
+      const data = await (await fetch(image.dataUrl)).blob();
+      file = `images/${imagePaths.size + 1}.${imageExtension(data.type)}`;
+      imagePaths.set(image.dataUrl, file);
+      entries.push({ name: file, data });
+    }
+    return { name: image.name, file };
+  };
+
+  const { logo, ...text } = project.overlay;
+  let source: ProjectManifest['source'] = null;
+  if (project.source && project.crop) {
+    const file = `images/source.${project.source.outputType === 'image/png' ? 'png' : 'jpg'}`;
+    entries.push({ name: file, data: await canvasToBlob(project.source.canvas, project.source.outputType) });
+    source = { name: project.source.name, file, crop: project.crop };
+  }
+  let result: ProjectManifest['result'] = null;
+  if (project.result) {
+    const { video, image, operationName, ...metadata } = project.result;
+    const file = `videos/result.${videoExtension(video.type)}`;
+    entries.push({ name: file, data: video });
+    result = { ...metadata, file, image: await addImage(image), operationName: operationName ?? null };
+  }
+
+  const manifest: ProjectManifest = {
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    savedAt: new Date().toISOString(),
+    prompt: project.prompt,
+    aspectRatio: project.aspectRatio,
+    image: project.image && await addImage(project.image),
+    source,
+    options: project.options,
+    overlay: { ...text, logo: logo && { ...logo, image: await addImage(logo.image) } },
+    clipEdit: project.clipEdit,
+    result,
+  };
+  entries.unshift({ name: MANIFEST_FILE, data: JSON.stringify(manifest, null, 2) });
+  return createZip(entries);
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const expectObject = (value: unknown, field: string): Record<string, unknown> => {
+  if (!isObject(value)) throw new Error(`The project's ${field} is missing or invalid.`);
+  return value;
+};
+
+const expectString = (value: unknown, field: string): string => {
+  if (typeof value !== 'string') throw new Error(`The project's ${field} must be text.`);
+  return value;
+};
+
+const expectNumber = (value: unknown, field: string): number => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) throw new Error(`The project's ${field} must be a number.`);
+  return value;
+};
+
+const expectOneOf = <T extends string>(value: unknown, allowed: T[], field: string): T => {
+  if (!allowed.includes(value as T)) throw new Error(`The project's ${field} must be one of: ${allowed.join(', ')}.`);
+  return value as T;
+};
+
+const nullable = <T>(value: unknown, parse: (value: unknown) => T): T | null =>
+  value === null || value === undefined ? null : parse(value);
+
+const parseCrop = (value: unknown): CropRect => {
+  const crop = expectObject(value, 'crop');
+  return {
+    x: expectNumber(crop.x, 'crop'),
+    y: expectNumber(crop.y, 'crop'),
+    width: expectNumber(crop.width, 'crop'),
+    height: expectNumber(crop.height, 'crop'),
+  };
+};
+
+// A model this provider doesn't offer is reported when the project is
+// generated, so only its count's lower bound is checked here.
+const parseNumberOfVideos = (value: unknown, modelId: string, provider: VideoProvider): number => {
+  const count = expectNumber(value, 'number of videos');
+  const max = getModelCapabilities(provider, modelId)?.maxVideos ?? Infinity;
+  if (!Number.isInteger(count) || count < 1 || count > max) {
+    const allowed = max === 1 ? '1' : Number.isFinite(max) ? `a whole number from 1 to ${max}` : 'a whole number of at least 1';
+    throw new Error(`The project's number of videos must be ${allowed}.`);
+  }
+  return count;
+};
+
+// Settings the project leaves out fall back to today's defaults.
+const parseOptions = (value: unknown): GenerationOptions => {
+  const options = expectObject(value, 'generation settings');
+  const provider = getVideoProvider();
+  const defaults = createDefaultGenerationOptions(provider);
+  const model = options.model === undefined ? defaults.model : expectString(options.model, 'model');
+  return {
+    model,
+    resolution: options.resolution === undefined ? defaults.resolution : expectOneOf(options.resolution, ['720p', '1080p'], 'resolution'),
+    negativePrompt: options.negativePrompt === undefined ? defaults.negativePrompt : expectString(options.negativePrompt, 'negative prompt'),
+    seed: nullable(options.seed, seed => expectNumber(seed, 'seed')),
+    numberOfVideos: options.numberOfVideos === undefined ? defaults.numberOfVideos : parseNumberOfVideos(options.numberOfVideos, model, provider),
+    durationSeconds: nullable(options.durationSeconds, duration => expectNumber(duration, 'clip length')),
+    generateAudio: options.generateAudio === undefined ? defaults.generateAudio : Boolean(options.generateAudio),
+  };
+};
+
+const parseTextOverlay = (value: unknown, fallback: TextOverlay, field: string): TextOverlay => {
+  if (value === undefined) return fallback;
+  const overlay = expectObject(value, field);
+  return {
+    text: expectString(overlay.text ?? fallback.text, field),
+    fontFamily: expectString(overlay.fontFamily ?? fallback.fontFamily, `${field} font`),
+    fontSizePercent: expectNumber(overlay.fontSizePercent ?? fallback.fontSizePercent, `${field} size`),
+    color: expectString(overlay.color ?? fallback.color, `${field} colour`),
+    position: expectOneOf(overlay.position ?? fallback.position, OVERLAY_POSITIONS, `${field} position`),
+  };
+};
+
+const parseClipEdit = (value: unknown): ClipEdit => {
+  if (value === undefined) return DEFAULT_CLIP_EDIT;
+  const edit = expectObject(value, 'trim settings');
+  const start = expectNumber(edit.start ?? 0, 'trim start');
+  const end = nullable(edit.end, end => expectNumber(end, 'trim end'));
+  if (start < 0 || (end !== null && end <= start)) {
+    throw new Error("The project's trim must start at 0 or later and end after it starts.");
+  }
+  const playbackRate = expectNumber(edit.playbackRate ?? 1, 'playback speed');
+  if (!PLAYBACK_RATES.includes(playbackRate)) {
+    throw new Error(`The project's playback speed must be one of: ${PLAYBACK_RATES.join(', ')}.`);
+  }
+  return { start, end, playbackRate };
+};
+
+const migrateManifest = (value: unknown): Manifest => {
+  const manifest = expectObject(value, 'manifest');
+  if (manifest.format !== PROJECT_FORMAT) {
+    throw new Error('This file is not a Robo AI intro project.');
+  }
+  let version = expectNumber(manifest.version, 'version');
+  if (!Number.isInteger(version) || version < 1) {
+    throw new Error(`The project's format version ${version} is not recognised.`);
+  }
+  if (version > PROJECT_VERSION) {
+    throw new Error(`This project was saved by a newer version of the app (format ${version}). Update the app to open it.`);
+  }
+  let migrated = manifest;
+  for (; version < PROJECT_VERSION; version++) {
+    migrated = MIGRATIONS[version - 1](migrated);
+  }
+  return migrated;
+};
+
+export const parseProject = async (archive: Blob): Promise<IntroProject> => {
+  const files = await readZip(archive);
+  const manifestFile = files.get(MANIFEST_FILE);
+  if (!manifestFile) {
+    throw new Error(`This archive has no ${MANIFEST_FILE}, so it isn't an intro project.`);
+  }
+  let json: unknown;
+  try {
+    json = JSON.parse(await manifestFile.text());
+  } catch {
+    throw new Error(`The project's ${MANIFEST_FILE} is not valid JSON.`);
+  }
+  const manifest = migrateManifest(json);
+
+  // ZIP entries carry no type, so it comes from the extension.
+  const readAsset = (path: unknown, field: string): Blob => {
+    const file = expectString(path, `${field} file`);
+    const asset = files.get(file);
+    if (!asset) throw new Error(`The project is missing ${file}.`);
+    return new Blob([asset], { type: MIME_TYPES[file.split('.').pop() ?? ''] ?? '' });
+  };
+  const readImage = async (value: unknown, field: string): Promise<ImageFile> => {
+    const ref = expectObject(value, field);
+    return {
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      name: expectString(ref.name, `${field} name`),
+      dataUrl: await readFileAsDataUrl(readAsset(ref.file, field)),
+    };
+  };
+
+  const overlay = expectObject(manifest.overlay ?? {}, 'overlays');
+  let logo: LogoOverlay | null = null;
+  if (overlay.logo) {
+    const value = expectObject(overlay.logo, 'logo');
+    logo = {
+      image: await readImage(value.image, 'logo'),
+      corner: expectOneOf(value.corner, LOGO_CORNERS, 'logo corner'),
+      sizePercent: expectNumber(value.sizePercent, 'logo size'),
+      startSeconds: expectNumber(value.startSeconds, 'logo start'),
+      endSeconds: nullable(value.endSeconds, end => expectNumber(end, 'logo end')),
+      fadeSeconds: expectNumber(value.fadeSeconds, 'logo fade'),
+    };
+  }
+
+  // Losing the uncropped original only means the crop can't be adjusted, so
+  // the rest of the project still opens.
+  let source: SourceImage | null = null;
+  let crop: CropRect | null = null;
+  if (manifest.source) {
+    const value = expectObject(manifest.source, 'source image');
+    crop = parseCrop(value.crop);
+    const name = expectString(value.name, 'source image name');
+    const data = readAsset(value.file, 'source image');
+    try {
+      source = await loadSourceImage(new File([data], name, { type: data.type }));
+    } catch (e) {
+      console.error("Could not restore the uncropped image", e);
+      crop = null;
+    }
+  }
+
+  let result: HistoryEntry | null = null;
+  if (manifest.result) {
+    const value = expectObject(manifest.result, 'result');
+    result = {
+      id: expectString(value.id, 'result id'),
+      video: readAsset(value.file, 'result'),
+      image: await readImage(value.image, 'result image'),
+      prompt: expectString(value.prompt, 'result prompt'),
+      aspectRatio: expectOneOf(value.aspectRatio, ASPECT_RATIOS, 'result aspect ratio'),
+      providerId: expectString(value.providerId, 'result provider'),
+      model: expectString(value.model, 'result model'),
+      operationName: nullable(value.operationName, name => expectString(name, 'result operation')) ?? undefined,
+      options: parseOptions(value.options),
+      submittedAt: expectNumber(value.submittedAt, 'result submission time'),
+      completedAt: expectNumber(value.completedAt, 'result completion time'),
+    };
+  }
+
+  return {
+    prompt: expectString(manifest.prompt ?? '', 'prompt'),
+    aspectRatio: expectOneOf(manifest.aspectRatio, ASPECT_RATIOS, 'aspect ratio'),
+    image: manifest.image ? await readImage(manifest.image, 'start image') : null,
+    source,
+    crop,
+    options: parseOptions(manifest.options ?? {}),
+    overlay: {
+      title: parseTextOverlay(overlay.title, DEFAULT_OVERLAY_SETTINGS.title, 'title'),
+      subtitle: parseTextOverlay(overlay.subtitle, DEFAULT_OVERLAY_SETTINGS.subtitle, 'subtitle'),
+      logo,
+    },
+    clipEdit: parseClipEdit(manifest.clipEdit),
+    result,
+  };
+};
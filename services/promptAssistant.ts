@@ -0,0 +1,50 @@
+import type { AspectRatio } from '../types';
+
+export const SUGGESTION_COUNT = 4;
+
+const ORIENTATION: Record<AspectRatio, string> = {
+  '16:9': 'landscape 16:9',
+  '9:16': 'vertical 9:16',
+};
+
+// Briefs whichever text model a provider uses, so every provider asks for the same kind of prompt.
+export const PROMPT_ASSISTANT_INSTRUCTIONS = [
+  'You write prompts for an image-to-video model that animates a still image, usually a logo, product shot or channel artwork, into a short video intro.',
+  'Every prompt must be about what the image actually shows: name its subject, colours and any text in it, and never invent a different subject.',
+  'Write one paragraph of at most 80 words in the present tense, describing the motion, the camera move, the lighting and the mood.',
+  'Do not add titles, lists, quotation marks or any commentary.',
+].join(' ');
+
+export const buildSuggestionRequest = (aspectRatio: AspectRatio, count: number): string =>
+  `Write ${count} different prompts for a ${ORIENTATION[aspectRatio]} video intro that animates this image. ` +
+  `Vary the style, pacing and camera work between them. Answer with a JSON array of ${count} strings.`;
+
+export const buildEnhancementRequest = (prompt: string, aspectRatio: AspectRatio, hasImage: boolean): string =>
+  `Rewrite this rough idea as one detailed shot description for a ${ORIENTATION[aspectRatio]} video intro` +
+  `${hasImage ? ' that animates the attached image' : ''}. Keep the intent and any names or on-screen text it mentions, ` +
+  `and add camera, lighting and pacing language. Answer with the prompt only.\n\nIdea: ${prompt.trim()}`;
+
+// Strips the list markers and quotes models sometimes add despite being told not to.
+export const cleanPromptText = (text: string): string =>
+  text
+    .trim()
+    .replace(/^(?:[-*•]|\d+[.)])\s+/, '')
+    .replace(/^["“]([\s\S]*)["”]$/, '$1')
+    .trim();
+
+// Expects a JSON array of strings, but copes with a code fence or a plain list.
+export const parseSuggestions = (text: string, count: number): string[] => {
+  const body = text.trim().replace(/^```(?:json)?\s*/, '').replace(/\s*```$/, '');
+  let items: unknown[];
+  try {
+    const parsed = JSON.parse(body);
+    items = Array.isArray(parsed) ? parsed : [];
+  } catch {
+    items = body.split('\n');
+  }
+  const suggestions = items
+    .filter((item): item is string => typeof item === 'string')
+    .map(cleanPromptText)
+    .filter(Boolean);
+  return [...new Set(suggestions)].slice(0, count);
+};
@@ -0,0 +1,105 @@
+import type { PromptPreset } from '../types';
+import { STYLE_MODIFIERS } from '../constants';
+
+const STORAGE_KEY = 'robo-ai-prompt-presets';
+const EXPORT_VERSION = 1;
+const VARIABLE_PATTERN = /\{\{\s*([a-zA-Z][\w]*)\s*\}\}/g;
+
+// Variable names in order of first appearance.
+export const extractVariables = (template: string): string[] =>
+  [...new Set([...template.matchAll(VARIABLE_PATTERN)].map(match => match[1]))];
+
+export const findMissingVariables = (template: string, variables: Record<string, string>): string[] =>
+  extractVariables(template).filter(name => !variables[name]?.trim());
+
+// Fills in the variables (unfilled ones are left as `{{name}}`) and appends
+// the selected style modifiers.
+export const expandPrompt = (template: string, variables: Record<string, string>, modifierIds: string[]): string => {
+  const base = template.replace(VARIABLE_PATTERN, (placeholder, name: string) => variables[name]?.trim() || placeholder);
+  const modifiers = STYLE_MODIFIERS.filter(modifier => modifierIds.includes(modifier.id)).map(modifier => modifier.text);
+  return [base.trim(), ...modifiers].filter(Boolean).join(' ');
+};
+
+const createPresetId = () => `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isStringRecord = (value: unknown): value is Record<string, string> =>
+  isObject(value) && Object.values(value).every(entry => typeof entry === 'string');
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(entry => typeof entry === 'string');
+
+const parsePreset = (value: unknown, index: number): PromptPreset => {
+  if (!isObject(value)) {
+    throw new Error(`Preset ${index + 1} is not an object.`);
+  }
+  const { id, name, template, variables, modifierIds } = value;
+  if (typeof name !== 'string' || !name.trim()) {
+    throw new Error(`Preset ${index + 1} is missing a name.`);
+  }
+  if (typeof template !== 'string' || !template.trim()) {
+    throw new Error(`Preset "${name}" is missing a template.`);
+  }
+  if (variables !== undefined && !isStringRecord(variables)) {
+    throw new Error(`Preset "${name}" has invalid variables.`);
+  }
+  if (modifierIds !== undefined && !isStringArray(modifierIds)) {
+    throw new Error(`Preset "${name}" has invalid style modifiers.`);
+  }
+  return {
+    id: typeof id === 'string' && id ? id : createPresetId(),
+    name: name.trim(),
+    template,
+    variables: isStringRecord(variables) ? variables : {},
+    // Drop modifiers this version doesn't know about rather than rejecting the preset.
+    modifierIds: (isStringArray(modifierIds) ? modifierIds : []).filter(modifierId => STYLE_MODIFIERS.some(modifier => modifier.id === modifierId)),
+  };
+};
+
+export const serializePresets = (presets: PromptPreset[]): string =>
+  JSON.stringify({
+    version: EXPORT_VERSION,
+    presets: presets.map(({ builtIn: _builtIn, ...preset }) => preset),
+  }, null, 2);
+
+// Accepts an exported file (`{ version, presets }`) or a bare array of presets.
+export const parsePresets = (json: string): PromptPreset[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  const presets = Array.isArray(data) ? data : isObject(data) ? data.presets : undefined;
+  if (!Array.isArray(presets)) {
+    throw new Error('The file does not contain any prompt presets.');
+  }
+  if (isObject(data) && typeof data.version === 'number' && data.version > EXPORT_VERSION) {
+    throw new Error('These presets were exported by a newer version of the app.');
+  }
+  return presets.map(parsePreset);
+};
+
+// Like saving, importing replaces a saved preset of the same name and adds
+// the rest under new ids, so ids from another browser never clash with ours.
+export const importPresets = (json: string, saved: PromptPreset[]): PromptPreset[] =>
+  parsePresets(json).map(preset => ({
+    ...preset,
+    id: saved.find(existing => existing.name === preset.name)?.id ?? createPresetId(),
+  }));
+
+export const loadSavedPresets = (): PromptPreset[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? parsePresets(stored) : [];
+  } catch (e) {
+    console.error("Could not load saved prompt presets", e);
+    return [];
+  }
+};
+
+export const savePresets = (presets: PromptPreset[]) => {
+  localStorage.setItem(STORAGE_KEY, serializePresets(presets));
+};
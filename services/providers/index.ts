@@ -0,0 +1,35 @@
+import type { VideoProvider } from '../../types';
+import { createMockProvider } from './mockProvider';
+import { createVeoProvider } from './veoProvider';
+
+export { createMockProvider } from './mockProvider';
+export { createVeoProvider, VEO_FAST_MODEL } from './veoProvider';
+
+const providerFactories: Record<string, () => VideoProvider> = {
+  veo: () => createVeoProvider(),
+  mock: () => createMockProvider({ cannedVideoUrl: process.env.MOCK_VIDEO_URL || undefined }),
+};
+
+const providers = new Map<string, VideoProvider>();
+
+// Selected at build time with VIDEO_PROVIDER (see vite.config.ts), or read from
+// the environment when running the CLI; defaults to Veo.
+const configuredProviderId = () => process.env.VIDEO_PROVIDER || 'veo';
+
+export const getVideoProvider = (id: string = configuredProviderId()): VideoProvider => {
+  let provider = providers.get(id);
+  if (!provider) {
+    const factory = providerFactories[id];
+    if (!factory) {
+      throw new Error(`Unknown video provider "${id}". Expected one of: ${Object.keys(providerFactories).join(', ')}.`);
+    }
+    provider = factory();
+    providers.set(id, provider);
+  }
+  return provider;
+};
+
+// Replaces the provider registered under `provider.id`, e.g. to inject a custom mock.
+export const setVideoProvider = (provider: VideoProvider) => {
+  providers.set(provider.id, provider);
+};
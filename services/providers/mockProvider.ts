@@ -0,0 +1,273 @@
+import type { AspectRatio, GeneratedVideoRef, VideoModelCapabilities, VideoProvider } from '../../types';
+import { GenerationError, createHttpError } from '../errors';
+
+export interface MockProviderOptions {
+  // Number of polls an operation stays pending before it reports done.
+  pollsUntilDone?: number;
+  pollIntervalMs?: number;
+  // Clip length when a request does not ask for one.
+  durationSeconds?: number;
+  // When set, this clip is returned instead of a procedurally drawn one.
+  cannedVideoUrl?: string;
+  // How long prompt suggestions and enhancements take.
+  textDelayMs?: number;
+}
+
+const MOCK_OPERATION_PREFIX = 'mock/operations/';
+
+// Put `[mock:<scenario>]` in a prompt to rehearse a failure offline.
+type MockScenario = 'safety' | 'fail' | 'quota' | 'flaky';
+const SCENARIO_PATTERN = /\[mock:(safety|fail|quota|flaky)\]/i;
+
+// Accepts every option so the whole settings panel can be exercised offline.
+const MOCK_MODEL: VideoModelCapabilities = {
+  id: 'mock-video-1',
+  label: 'Mock video',
+  tier: 'fast',
+  resolutions: ['720p', '1080p'],
+  durations: [2, 4, 6, 8],
+  maxVideos: 4,
+  supportsNegativePrompt: true,
+  supportsSeed: true,
+  supportsAudio: true,
+};
+
+// FNV-1a, so the same inputs always draw the same clip.
+const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// Canned prompt pieces, picked by hashing the image so suggestions stay stable.
+const MOCK_SHOTS = [
+  'The subject of the image assembles from glowing particles at the centre of the frame',
+  'The subject of the image rises out of rippling liquid chrome',
+  'Ink swirls across a paper texture and settles into the subject of the image',
+  'The subject of the image is revealed behind a sweep of lens flare',
+  'Neon outlines trace the subject of the image before it lights up in full colour',
+  'The subject of the image spins slowly on a reflective pedestal',
+];
+const MOCK_CAMERAS = [
+  'as the camera pushes in slowly',
+  'while the camera orbits in a smooth half circle',
+  'with a low-angle crane shot that rises to eye level',
+  'as the camera dollies back to reveal the whole scene',
+];
+const MOCK_LIGHTING = [
+  'Warm golden-hour light, shallow depth of field, calm and premium mood.',
+  'Moody rim lighting with haze, high contrast, epic cinematic mood.',
+  'Bright soft studio light, clean background, playful upbeat pacing.',
+  'Cool blue key light with magenta accents, energetic fast pacing.',
+];
+
+const pick = <T>(items: T[], seed: number): T => items[seed % items.length];
+
+// Rejects with the signal's AbortError as soon as it fires, like a real request.
+const wait = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timeout = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timeout);
+      reject(signal!.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+interface MockClipSpec {
+  aspectRatio: AspectRatio;
+  seed: number;
+  durationSeconds: number;
+  numberOfVideos: number;
+  failure?: MockScenario;
+}
+
+// Operation names carry everything needed to poll and render, so a mock
+// operation can be picked up again without any in-memory state.
+const formatOperationName = ({ aspectRatio, seed, durationSeconds, numberOfVideos, failure }: MockClipSpec, sequence: number): string =>
+  `${MOCK_OPERATION_PREFIX}${aspectRatio.replace(':', 'x')}/${seed.toString(16)}/${durationSeconds}/${numberOfVideos}/${sequence}${failure ? `/${failure}` : ''}`;
+
+const parseOperationName = (name: string): MockClipSpec => {
+  const [aspect, seed, duration, count, , failure] = name.slice(MOCK_OPERATION_PREFIX.length).split('/');
+  return {
+    aspectRatio: aspect === '9x16' ? '9:16' : '16:9',
+    seed: Number.parseInt(seed, 16) || 0,
+    durationSeconds: Number(duration) || 4,
+    numberOfVideos: Number(count) || 1,
+    failure: failure === 'safety' || failure === 'fail' ? failure : undefined,
+  };
+};
+
+const renderProceduralClip = async (
+  aspectRatio: AspectRatio,
+  seed: number,
+  durationSeconds: number,
+  signal?: AbortSignal
+): Promise<Blob> => {
+  if (typeof document === 'undefined') {
+    throw new Error('The mock provider can only draw clips in a browser. Set MOCK_VIDEO_URL to return a canned clip instead.');
+  }
+  const [width, height] = aspectRatio === '16:9' ? [640, 360] : [360, 640];
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Mock provider could not create a canvas context.');
+  }
+
+  const hue = seed % 360;
+  const fps = 30;
+  const totalFrames = durationSeconds * fps;
+  const drawFrame = (frame: number) => {
+    const t = frame / totalFrames;
+    const gradient = ctx.createLinearGradient(0, 0, width, height);
+    gradient.addColorStop(0, `hsl(${(hue + t * 120) % 360}, 70%, 25%)`);
+    gradient.addColorStop(1, `hsl(${(hue + 180 + t * 120) % 360}, 70%, 45%)`);
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, width, height);
+
+    const radius = Math.min(width, height) * (0.15 + 0.1 * Math.sin(t * Math.PI * 2));
+    ctx.beginPath();
+    ctx.arc(width * (0.2 + 0.6 * t), height / 2, radius, 0, Math.PI * 2);
+    ctx.fillStyle = `hsla(${(hue + 90) % 360}, 90%, 70%, 0.8)`;
+    ctx.fill();
+
+    ctx.fillStyle = 'white';
+    ctx.font = `bold ${Math.round(height / 12)}px sans-serif`;
+    ctx.textAlign = 'center';
+    ctx.fillText('MOCK INTRO', width / 2, height * 0.85);
+  };
+
+  drawFrame(0);
+  const stream = canvas.captureStream(fps);
+  const recorder = new MediaRecorder(stream, { mimeType: 'video/webm' });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (event) => chunks.push(event.data);
+  const stopped = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+
+  recorder.start();
+  try {
+    // setTimeout rather than requestAnimationFrame so rendering keeps going in a background tab.
+    for (let frame = 1; frame <= totalFrames; frame++) {
+      await wait(1000 / fps, signal);
+      drawFrame(frame);
+    }
+  } finally {
+    recorder.stop();
+    await stopped;
+    stream.getTracks().forEach(track => track.stop());
+  }
+
+  return new Blob(chunks, { type: 'video/webm' });
+};
+
+export const createMockProvider = ({
+  pollsUntilDone = 3,
+  pollIntervalMs = 1000,
+  durationSeconds = 4,
+  cannedVideoUrl,
+  textDelayMs = 600,
+}: MockProviderOptions = {}): VideoProvider => {
+  const pollCounts = new Map<string, number>();
+  const flakyOperations = new Set<string>();
+  let sequence = 0;
+
+  return {
+    id: 'mock',
+    label: 'Offline mock',
+    model: 'mock-video-1',
+    capabilities: {
+      requiresApiKey: false,
+      aspectRatios: ['16:9', '9:16'],
+      pollIntervalMs,
+      models: [MOCK_MODEL],
+    },
+
+    submit: async ({ prompt, imageDataUrl, aspectRatio, options }) => {
+      const scenario = prompt.match(SCENARIO_PATTERN)?.[1].toLowerCase() as MockScenario | undefined;
+      if (scenario === 'quota') {
+        throw createHttpError(429, 'Resource has been exhausted (e.g. check quota).');
+      }
+      const seed = options.seed ?? hashString(`${prompt}|${aspectRatio}|${imageDataUrl}|${options.negativePrompt}`);
+      sequence++;
+      const name = formatOperationName({
+        aspectRatio,
+        seed,
+        durationSeconds: options.durationSeconds ?? durationSeconds,
+        numberOfVideos: options.numberOfVideos,
+        failure: scenario === 'safety' || scenario === 'fail' ? scenario : undefined,
+      }, sequence);
+      pollCounts.set(name, 0);
+      if (scenario === 'flaky') flakyOperations.add(name);
+      return { name, done: false };
+    },
+
+    poll: async ({ name }) => {
+      // Fails the first poll of a flaky operation, then succeeds on the retry.
+      if (flakyOperations.delete(name)) {
+        throw createHttpError(503, 'The service is currently unavailable.');
+      }
+      const polls = (pollCounts.get(name) ?? 0) + 1;
+      pollCounts.set(name, polls);
+      if (polls < pollsUntilDone) {
+        return { name, done: false };
+      }
+      pollCounts.delete(name);
+      const { numberOfVideos, failure } = parseOperationName(name);
+      if (failure === 'safety') {
+        return { name, done: true, filteredReasons: ['The mock provider blocked this prompt, as requested by [mock:safety].'] };
+      }
+      if (failure === 'fail') {
+        return { name, done: true, error: 'The mock provider failed this operation, as requested by [mock:fail].' };
+      }
+      const videos = Array.from({ length: numberOfVideos }, (_, index) => ({ uri: `${name}#${index}` }));
+      return { name, done: true, videos };
+    },
+
+    download: async ({ uri }: GeneratedVideoRef, signal?: AbortSignal) => {
+      if (cannedVideoUrl) {
+        const response = await fetch(cannedVideoUrl, { signal });
+        if (!response.ok) {
+          throw createHttpError(response.status, `Failed to download video: ${response.statusText}`);
+        }
+        return response.blob();
+      }
+      const [name, index] = uri.split('#');
+      const clip = parseOperationName(name);
+      return renderProceduralClip(clip.aspectRatio, hashString(`${clip.seed}#${index}`), clip.durationSeconds, signal);
+    },
+
+    suggestPrompts: async ({ imageDataUrl, aspectRatio, count, signal }) => {
+      await wait(textDelayMs, signal);
+      const seed = hashString(`${imageDataUrl}|${aspectRatio}`);
+      return Array.from({ length: count }, (_, index) =>
+        `${pick(MOCK_SHOTS, seed + index)} ${pick(MOCK_CAMERAS, (seed >>> 3) + index)}. ${pick(MOCK_LIGHTING, (seed >>> 7) + index)}`);
+    },
+
+    enhancePrompt: async ({ prompt, signal }) => {
+      await wait(textDelayMs, signal);
+      const scenario = prompt.match(SCENARIO_PATTERN)?.[1].toLowerCase();
+      if (scenario === 'quota') {
+        throw createHttpError(429, 'Resource has been exhausted (e.g. check quota).');
+      }
+      if (scenario === 'safety') {
+        const reason = 'The mock provider blocked this prompt, as requested by [mock:safety].';
+        throw new GenerationError('safety', reason, { reasons: [reason] });
+      }
+      const seed = hashString(prompt);
+      const idea = prompt.trim().replace(/[.!]+$/, '');
+      return `${idea}, ${pick(MOCK_CAMERAS, seed)}. ${pick(MOCK_LIGHTING, seed >>> 3)}`;
+    },
+  };
+};
@@ -0,0 +1,176 @@
+import { GoogleGenAI, GenerateContentResponse, GenerateVideosOperation, Type } from '@google/genai';
+import type { Credentials, VideoModelCapabilities, VideoOperation, VideoProvider } from '../../types';
+import { dataUrlToMimeAndBase64 } from '../dataUrl';
+import { GenerationError, createHttpError } from '../errors';
+import { getCredentials } from '../credentials';
+import {
+  PROMPT_ASSISTANT_INSTRUCTIONS,
+  buildEnhancementRequest,
+  buildSuggestionRequest,
+  cleanPromptText,
+  parseSuggestions,
+} from '../promptAssistant';
+
+export const VEO_FAST_MODEL = 'veo-3.1-fast-generate-preview';
+export const VEO_QUALITY_MODEL = 'veo-3.1-generate-preview';
+// Reads the start image and writes prompts; much cheaper than a video.
+export const PROMPT_MODEL = 'gemini-2.5-flash';
+
+// As offered by the Gemini API, which rejects `seed` and `generateAudio` (only
+// Vertex AI takes them). Veo 3.1 there always renders audio.
+export const VEO_MODELS: VideoModelCapabilities[] = [
+  {
+    id: VEO_FAST_MODEL,
+    label: 'Veo 3.1 Fast',
+    tier: 'fast',
+    resolutions: ['720p', '1080p'],
+    durations: [4, 6, 8],
+    fullHdDurations: [8],
+    maxVideos: 1,
+    supportsNegativePrompt: true,
+    supportsSeed: false,
+    supportsAudio: false,
+  },
+  {
+    id: VEO_QUALITY_MODEL,
+    label: 'Veo 3.1',
+    tier: 'quality',
+    resolutions: ['720p', '1080p'],
+    durations: [4, 6, 8],
+    fullHdDurations: [8],
+    maxVideos: 1,
+    supportsNegativePrompt: true,
+    supportsSeed: false,
+    supportsAudio: false,
+  },
+  {
+    id: 'veo-2.0-generate-001',
+    label: 'Veo 2',
+    tier: 'quality',
+    resolutions: ['720p'],
+    durations: [5, 6, 7, 8],
+    maxVideos: 2,
+    supportsNegativePrompt: true,
+    supportsSeed: false,
+    supportsAudio: false,
+  },
+];
+
+const GEMINI_API_ORIGIN = 'https://generativelanguage.googleapis.com';
+// The proxy swaps this for the real key, so the SDK doesn't complain about a missing one.
+const PROXY_PLACEHOLDER_KEY = 'via-proxy';
+
+// A new instance must be created before each call to use the latest API key.
+const createClient = ({ apiKey, baseUrl }: Credentials = getCredentials()) => new GoogleGenAI(baseUrl
+  ? { apiKey: PROXY_PLACEHOLDER_KEY, httpOptions: { baseUrl } }
+  : { apiKey });
+
+// Video URIs point at Google's API; through a proxy they're fetched from the
+// same path on the proxy, which adds the key itself.
+const toDownloadUrl = (uri: string, { apiKey, baseUrl }: Credentials = getCredentials()) =>
+  baseUrl ? uri.replace(GEMINI_API_ORIGIN, baseUrl) : `${uri}&key=${apiKey}`;
+
+const toImagePart = (imageDataUrl: string) => {
+  const { mimeType, base64 } = dataUrlToMimeAndBase64(imageDataUrl);
+  return { inlineData: { mimeType, data: base64 } };
+};
+
+const readResponseText = (response: GenerateContentResponse): string => {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) {
+    const reason = response.promptFeedback?.blockReasonMessage || `The request was blocked (${blockReason}).`;
+    throw new GenerationError('safety', reason, { reasons: [reason] });
+  }
+  return response.text ?? '';
+};
+
+const toVideoOperation = (operation: GenerateVideosOperation): VideoOperation => ({
+  name: operation.name ?? '',
+  done: Boolean(operation.done),
+  videos: operation.response?.generatedVideos
+    ?.filter(generated => generated.video?.uri)
+    .map(generated => ({ uri: generated.video!.uri!, mimeType: generated.video!.mimeType })),
+  error: operation.error ? String(operation.error.message ?? JSON.stringify(operation.error)) : undefined,
+  filteredReasons: operation.response?.raiMediaFilteredReasons,
+});
+
+export const createVeoProvider = (model: string = VEO_FAST_MODEL): VideoProvider => ({
+  id: 'veo',
+  label: 'Google Veo',
+  model,
+  capabilities: {
+    requiresApiKey: true,
+    aspectRatios: ['16:9', '9:16'],
+    pollIntervalMs: 10000,
+    models: VEO_MODELS,
+  },
+
+  submit: async ({ prompt, imageDataUrl, aspectRatio, options }) => {
+    const client = createClient();
+    const { mimeType, base64: imageBase64 } = dataUrlToMimeAndBase64(imageDataUrl);
+    const operation = await client.models.generateVideos({
+      model: options.model,
+      prompt,
+      image: {
+        imageBytes: imageBase64,
+        mimeType,
+      },
+      config: {
+        numberOfVideos: options.numberOfVideos,
+        resolution: options.resolution,
+        aspectRatio,
+        negativePrompt: options.negativePrompt.trim() || undefined,
+        durationSeconds: options.durationSeconds ?? undefined,
+        // The SDK throws on these outside Vertex AI, even before sending the request.
+        ...(client.vertexai ? { seed: options.seed ?? undefined, generateAudio: options.generateAudio } : {}),
+      },
+    });
+    return toVideoOperation(operation);
+  },
+
+  poll: async ({ name }, signal) => {
+    const operation = new GenerateVideosOperation();
+    operation.name = name;
+    return toVideoOperation(await createClient().operations.getVideosOperation({
+      operation,
+      config: { abortSignal: signal },
+    }));
+  },
+
+  download: async ({ uri }, signal) => {
+    const videoResponse = await fetch(toDownloadUrl(uri), { signal });
+    if (!videoResponse.ok) {
+      throw createHttpError(videoResponse.status, `Failed to download video: ${videoResponse.statusText}`);
+    }
+    return videoResponse.blob();
+  },
+
+  // Looking up the model checks both the key and its access to Veo.
+  verifyCredentials: async (credentials) => {
+    await createClient(credentials).models.get({ model });
+  },
+
+  suggestPrompts: async ({ imageDataUrl, aspectRatio, count, signal }) => {
+    const response = await createClient().models.generateContent({
+      model: PROMPT_MODEL,
+      contents: [toImagePart(imageDataUrl), { text: buildSuggestionRequest(aspectRatio, count) }],
+      config: {
+        systemInstruction: PROMPT_ASSISTANT_INSTRUCTIONS,
+        responseMimeType: 'application/json',
+        responseSchema: { type: Type.ARRAY, items: { type: Type.STRING } },
+        abortSignal: signal,
+      },
+    });
+    return parseSuggestions(readResponseText(response), count);
+  },
+
+  enhancePrompt: async ({ prompt, imageDataUrl, aspectRatio, signal }) => {
+    const request = { text: buildEnhancementRequest(prompt, aspectRatio, Boolean(imageDataUrl)) };
+    const response = await createClient().models.generateContent({
+      model: PROMPT_MODEL,
+      contents: imageDataUrl ? [toImagePart(imageDataUrl), request] : [request],
+      config: { systemInstruction: PROMPT_ASSISTANT_INSTRUCTIONS, abortSignal: signal },
+    });
+    return cleanPromptText(readResponseText(response));
+  },
+});
@@ -0,0 +1,133 @@
+import {
+  createCanvasRecorder,
+  drawContained,
+  loadVideoElement,
+  playThrough,
+  releaseVideoElement,
+} from './videoRecording';
+
+export interface StitchOptions {
+  // Length of the dissolve between consecutive clips; 0 gives hard cuts.
+  crossfadeSeconds?: number;
+  signal?: AbortSignal;
+  onProgress?: (fraction: number) => void;
+}
+
+// Plays the tail of `outgoing` and the head of `incoming` together, blending
+// picture and sound over `seconds`.
+const playCrossfade = (
+  ctx: CanvasRenderingContext2D,
+  outgoing: HTMLVideoElement,
+  incoming: HTMLVideoElement,
+  outgoingGain: GainNode,
+  incomingGain: GainNode,
+  seconds: number,
+  onFrame: (incomingTime: number) => void,
+  signal?: AbortSignal
+): Promise<void> =>
+  new Promise((resolve, reject) => {
+    let finished = false;
+    const finish = (error?: unknown) => {
+      if (finished) return;
+      finished = true;
+      outgoing.pause();
+      outgoingGain.gain.value = 0;
+      incomingGain.gain.value = 1;
+      signal?.removeEventListener('abort', onAbort);
+      if (error) reject(error);
+      else resolve();
+    };
+    const onAbort = () => finish(signal!.reason);
+
+    const tick = () => {
+      if (finished) return;
+      const mix = Math.min(1, incoming.currentTime / seconds);
+      outgoingGain.gain.value = 1 - mix;
+      incomingGain.gain.value = mix;
+      ctx.fillRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+      drawContained(ctx, outgoing);
+      ctx.globalAlpha = mix;
+      drawContained(ctx, incoming);
+      ctx.globalAlpha = 1;
+      onFrame(incoming.currentTime);
+      if (mix >= 1 || incoming.ended) {
+        finish();
+        return;
+      }
+      requestAnimationFrame(tick);
+    };
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+    incomingGain.gain.value = 0;
+    incoming.currentTime = 0;
+    Promise.all([outgoing.play(), incoming.play()]).then(() => requestAnimationFrame(tick), finish);
+  });
+
+// Concatenates clips in order into one recording, sized to the first clip.
+// Like the other renderers this runs in real time.
+export const stitchClips = async (
+  clips: Blob[],
+  { crossfadeSeconds = 0, signal, onProgress }: StitchOptions = {}
+): Promise<Blob> => {
+  if (clips.length === 0) {
+    throw new Error('There are no clips to stitch.');
+  }
+
+  const elements: HTMLVideoElement[] = [];
+  try {
+    for (const clip of clips) {
+      elements.push(await loadVideoElement(clip));
+    }
+
+    const shortest = Math.min(...elements.map(element => element.duration));
+    const fade = elements.length > 1 ? Math.max(0, Math.min(crossfadeSeconds, shortest / 2)) : 0;
+    const totalDuration = elements.reduce((total, element) => total + element.duration, 0) - fade * (elements.length - 1);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = elements[0].videoWidth;
+    canvas.height = elements[0].videoHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('Could not create a canvas to stitch the clips.');
+    }
+    ctx.fillStyle = 'black';
+
+    const recorder = createCanvasRecorder(canvas);
+    const gains = elements.map(element => recorder.connectAudio(element));
+    recorder.start();
+
+    try {
+      let elapsed = 0;
+      for (let i = 0; i < elements.length; i++) {
+        const current = elements[i];
+        const next = elements[i + 1];
+        const segmentEnd = next && fade > 0 ? current.duration - fade : current.duration;
+
+        // After a dissolve the clip is already playing; carry on from there.
+        await playThrough(current, {
+          start: current.currentTime,
+          end: segmentEnd,
+          signal,
+          onFrame: (time) => {
+            ctx.fillRect(0, 0, canvas.width, canvas.height);
+            drawContained(ctx, current);
+            onProgress?.(Math.min(1, (elapsed + time) / totalDuration));
+          },
+        });
+        elapsed += segmentEnd;
+
+        if (next && fade > 0) {
+          await playCrossfade(ctx, current, next, gains[i], gains[i + 1], fade, (time) => {
+            onProgress?.(Math.min(1, (elapsed + time) / totalDuration));
+          }, signal);
+        }
+      }
+    } catch (e) {
+      await recorder.stop();
+      throw e;
+    }
+    return recorder.stop();
+  } finally {
+    elements.forEach(releaseVideoElement);
+  }
+};
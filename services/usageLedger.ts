@@ -0,0 +1,148 @@
+import type { BudgetPeriod, GenerationErrorKind, GenerationJob, GenerationOptions, PriceTable, UsageBudget, UsageRecord, UsageStatus, VideoProvider } from '../types';
+import { DEFAULT_PRICE_TABLE, DEFAULT_USAGE_BUDGET } from '../constants';
+import { USAGE_STORE, getAllRecords, getRecord, putRecord } from './db';
+import { getModelCapabilities } from './generationOptions';
+
+const PRICE_TABLE_STORAGE_KEY = 'robo-ai-price-table';
+const BUDGET_STORAGE_KEY = 'robo-ai-usage-budget';
+
+// The session is this page load.
+const SESSION_STARTED_AT = Date.now();
+
+const listeners = new Set<() => void>();
+
+// Called whenever a record is added or updated, so open views can refresh.
+export const subscribeToUsage = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const notify = () => listeners.forEach(listener => listener());
+
+const readJson = <T>(key: string): T | null => {
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? JSON.parse(stored) : null;
+  } catch (e) {
+    console.error("Could not read usage settings", e);
+    return null;
+  }
+};
+
+// Saved prices override the defaults model by model.
+export const loadPriceTable = (): PriceTable => ({ ...DEFAULT_PRICE_TABLE, ...readJson<PriceTable>(PRICE_TABLE_STORAGE_KEY) });
+
+export const savePriceTable = (table: PriceTable) => {
+  localStorage.setItem(PRICE_TABLE_STORAGE_KEY, JSON.stringify(table));
+};
+
+export const loadBudget = (): UsageBudget => ({ ...DEFAULT_USAGE_BUDGET, ...readJson<UsageBudget>(BUDGET_STORAGE_KEY) });
+
+export const saveBudget = (budget: UsageBudget) => {
+  localStorage.setItem(BUDGET_STORAGE_KEY, JSON.stringify(budget));
+};
+
+// Without an explicit length the model renders its longest clip.
+const billedSeconds = (options: GenerationOptions, provider: VideoProvider): number =>
+  options.durationSeconds ?? Math.max(...(getModelCapabilities(provider, options.model)?.durations ?? [8]));
+
+// Models missing from the price table are counted as free.
+export const estimateCost = (options: GenerationOptions, provider: VideoProvider, prices: PriceTable = loadPriceTable()): number => {
+  const price = prices[options.model];
+  if (!price) return 0;
+  // A model with an audio price that can't turn audio off always renders it.
+  const withAudio = options.generateAudio || !getModelCapabilities(provider, options.model)?.supportsAudio;
+  const perSecond = withAudio && price.perSecondWithAudio !== undefined ? price.perSecondWithAudio : price.perSecond;
+  return perSecond * billedSeconds(options, provider) * options.numberOfVideos;
+};
+
+export const recordSubmission = async (job: GenerationJob, provider: VideoProvider): Promise<void> => {
+  const record: UsageRecord = {
+    id: job.id,
+    providerId: job.providerId,
+    model: job.options.model,
+    resolution: job.options.resolution,
+    durationSeconds: billedSeconds(job.options, provider),
+    numberOfVideos: job.options.numberOfVideos,
+    generateAudio: job.options.generateAudio,
+    estimatedCost: estimateCost(job.options, provider),
+    status: 'pending',
+    submittedAt: Date.now(),
+  };
+  await putRecord(USAGE_STORE, record);
+  notify();
+};
+
+// Jobs submitted before the ledger existed have no record and are skipped.
+export const recordOutcome = async (id: string, status: Exclude<UsageStatus, 'pending'>, errorKind?: GenerationErrorKind): Promise<void> => {
+  const record = await getRecord<UsageRecord>(USAGE_STORE, id);
+  if (!record) return;
+  await putRecord(USAGE_STORE, { ...record, status, errorKind, finishedAt: Date.now() });
+  notify();
+};
+
+// Newest first.
+export const listUsage = async (): Promise<UsageRecord[]> => {
+  const records = await getAllRecords<UsageRecord>(USAGE_STORE);
+  return records.sort((a, b) => b.submittedAt - a.submittedAt);
+};
+
+// Failed operations return no video and aren't billed, unless the video was
+// made and only the download failed. Cancelled ones are counted, since the
+// remote operation keeps running.
+const isBilled = (record: UsageRecord) => record.status !== 'failed' || record.errorKind === 'download-failed';
+
+const periodStart = (period: BudgetPeriod, now: number): number => {
+  const date = new Date(now);
+  switch (period) {
+    case 'session':
+      return SESSION_STARTED_AT;
+    case 'day':
+      return new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+    case 'month':
+      return new Date(date.getFullYear(), date.getMonth(), 1).getTime();
+  }
+};
+
+export const totalSpend = (records: UsageRecord[], period: BudgetPeriod, now = Date.now()): number => {
+  const start = periodStart(period, now);
+  return records
+    .filter(record => isBilled(record) && record.submittedAt >= start)
+    .reduce((sum, record) => sum + record.estimatedCost, 0);
+};
+
+// What the budget period has seen so far, when spending `cost` more would go
+// over the limit.
+export const findBudgetOverrun = (records: UsageRecord[], budget: UsageBudget, cost: number): { spent: number; limit: number } | null => {
+  if (budget.limit === null || cost <= 0) return null;
+  const spent = totalSpend(records, budget.period);
+  return spent + cost > budget.limit ? { spent, limit: budget.limit } : null;
+};
+
+export const formatCost = (cost: number): string => `$${cost.toFixed(2)}`;
+
+const CSV_COLUMNS: (keyof UsageRecord)[] = [
+  'id', 'submittedAt', 'finishedAt', 'status', 'errorKind', 'providerId', 'model',
+  'resolution', 'durationSeconds', 'numberOfVideos', 'generateAudio', 'estimatedCost',
+];
+
+const csvCell = (value: unknown): string => {
+  const text = value === undefined ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Oldest first, with ISO timestamps so spreadsheets parse them as dates.
+export const usageToCsv = (records: UsageRecord[]): string => {
+  const rows = [...records].sort((a, b) => a.submittedAt - b.submittedAt).map(record =>
+    CSV_COLUMNS.map(column => {
+      const value = record[column];
+      if ((column === 'submittedAt' || column === 'finishedAt') && typeof value === 'number') {
+        return new Date(value).toISOString();
+      }
+      return csvCell(column === 'estimatedCost' ? record.estimatedCost.toFixed(4) : value);
+    }).join(',')
+  );
+  return [CSV_COLUMNS.join(','), ...rows].join('\n') + '\n';
+};
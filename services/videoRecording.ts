@@ -0,0 +1,346 @@
+// Helpers for re-rendering video in the browser: play a source clip, draw
+// each frame onto a canvas and record the canvas (plus the clip's audio)
+// with MediaRecorder.
+
+export interface CanvasRecorderOptions {
+  mimeType?: string;
+  videoBitsPerSecond?: number;
+  fps?: number;
+}
+
+export interface CanvasRecorder {
+  mimeType: string;
+  // Routes a clip's audio into the recording without playing it aloud. The
+  // returned gain node can be used to fade that clip's audio.
+  connectAudio: (video: HTMLVideoElement) => GainNode;
+  start: () => void;
+  stop: () => Promise<Blob>;
+}
+
+export interface PlayThroughOptions {
+  start?: number;
+  end?: number;
+  playbackRate?: number;
+  signal?: AbortSignal;
+  onFrame: (time: number) => void;
+}
+
+const RECORDER_MIME_TYPES = [
+  'video/mp4;codecs=avc1,mp4a.40.2',
+  'video/webm;codecs=vp9,opus',
+  'video/webm;codecs=vp8,opus',
+  'video/webm',
+];
+
+export const pickRecorderMimeType = (preferred: string[] = RECORDER_MIME_TYPES): string => {
+  const supported = preferred.find(type => MediaRecorder.isTypeSupported(type));
+  if (!supported) {
+    throw new Error('This browser cannot record video. Please try a recent version of Chrome, Edge or Firefox.');
+  }
+  return supported;
+};
+
+const waitForEvent = (target: EventTarget, type: string): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const onEvent = () => {
+      target.removeEventListener('error', onError);
+      resolve();
+    };
+    const onError = () => {
+      target.removeEventListener(type, onEvent);
+      reject(new Error(`Media failed to load while waiting for "${type}".`));
+    };
+    target.addEventListener(type, onEvent, { once: true });
+    target.addEventListener('error', onError, { once: true });
+  });
+
+export const loadVideoElement = async (video: Blob): Promise<HTMLVideoElement> => {
+  const element = document.createElement('video');
+  element.playsInline = true;
+  element.preload = 'auto';
+  element.src = URL.createObjectURL(video);
+  await waitForEvent(element, 'loadeddata');
+  // WebM files from MediaRecorder don't state their length, so the duration
+  // reads Infinity until the element has seen the end. Seeking far past it
+  // makes the browser find the real one.
+  if (!Number.isFinite(element.duration)) {
+    const seeked = waitForEvent(element, 'seeked');
+    element.currentTime = Number.MAX_SAFE_INTEGER;
+    await seeked;
+    await seekTo(element, 0);
+  }
+  if (!Number.isFinite(element.duration)) {
+    releaseVideoElement(element);
+    throw new Error('Could not work out how long the video is.');
+  }
+  return element;
+};
+
+export const releaseVideoElement = (element: HTMLVideoElement) => {
+  element.pause();
+  URL.revokeObjectURL(element.src);
+  element.removeAttribute('src');
+  element.load();
+};
+
+export const loadImageElement = async (src: string): Promise<HTMLImageElement> => {
+  const image = new Image();
+  image.src = src;
+  await image.decode();
+  return image;
+};
+
+export const seekTo = async (element: HTMLVideoElement, time: number): Promise<void> => {
+  const target = Math.max(0, Math.min(time, Number.isFinite(element.duration) ? element.duration : 0));
+  if (Math.abs(element.currentTime - target) < 0.001 && element.readyState >= 2) return;
+  const seeked = waitForEvent(element, 'seeked');
+  element.currentTime = target;
+  await seeked;
+};
+
+// Draws `source` scaled to fit the canvas, letterboxing any mismatch.
+export const drawContained = (ctx: CanvasRenderingContext2D, source: HTMLVideoElement) => {
+  const { width, height } = ctx.canvas;
+  const scale = Math.min(width / source.videoWidth, height / source.videoHeight);
+  const drawWidth = source.videoWidth * scale;
+  const drawHeight = source.videoHeight * scale;
+  ctx.drawImage(source, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+};
+
+// Grabs a single frame as a data URL. A negative `time` counts back from the end.
+export const extractFrame = async (video: Blob, time: number, mimeType: string = 'image/png'): Promise<string> => {
+  const element = await loadVideoElement(video);
+  try {
+    await seekTo(element, time < 0 ? element.duration + time : time);
+    const canvas = document.createElement('canvas');
+    canvas.width = element.videoWidth;
+    canvas.height = element.videoHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('Could not create a canvas to capture the frame.');
+    }
+    ctx.drawImage(element, 0, 0);
+    return canvas.toDataURL(mimeType);
+  } finally {
+    releaseVideoElement(element);
+  }
+};
+
+// Grabs `count` evenly spaced frames scaled to `height` pixels, for a
+// scrubbable strip. Each frame is taken from the middle of its slot.
+export const extractThumbnails = async (video: Blob, count: number, height: number): Promise<{ time: number; dataUrl: string }[]> => {
+  const element = await loadVideoElement(video);
+  try {
+    const canvas = document.createElement('canvas');
+    canvas.height = height;
+    canvas.width = Math.round(height * (element.videoWidth / element.videoHeight));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('Could not create a canvas to capture the frames.');
+    }
+    const thumbnails: { time: number; dataUrl: string }[] = [];
+    for (let index = 0; index < count; index++) {
+      const time = ((index + 0.5) / count) * element.duration;
+      await seekTo(element, time);
+      ctx.drawImage(element, 0, 0, canvas.width, canvas.height);
+      thumbnails.push({ time, dataUrl: canvas.toDataURL('image/jpeg', 0.7) });
+    }
+    return thumbnails;
+  } finally {
+    releaseVideoElement(element);
+  }
+};
+
+export const createCanvasRecorder = (
+  canvas: HTMLCanvasElement,
+  { mimeType = pickRecorderMimeType(), videoBitsPerSecond, fps = 30 }: CanvasRecorderOptions = {}
+): CanvasRecorder => {
+  const audioContext = new AudioContext();
+  const audioDestination = audioContext.createMediaStreamDestination();
+  const stream = new MediaStream([
+    ...canvas.captureStream(fps).getVideoTracks(),
+    ...audioDestination.stream.getAudioTracks(),
+  ]);
+  const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (event) => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+
+  return {
+    mimeType,
+    connectAudio: (video) => {
+      const gain = audioContext.createGain();
+      audioContext.createMediaElementSource(video).connect(gain).connect(audioDestination);
+      return gain;
+    },
+    start: () => {
+      audioContext.resume();
+      recorder.start(250);
+    },
+    stop: () =>
+      new Promise<Blob>((resolve) => {
+        recorder.onstop = () => {
+          stream.getTracks().forEach(track => track.stop());
+          audioContext.close();
+          resolve(new Blob(chunks, { type: mimeType.split(';')[0] }));
+        };
+        recorder.stop();
+      }),
+  };
+};
+
+// Plays `element` from `start` to `end` in real time, calling `onFrame` for
+// every presented frame. Resolves when the end is reached.
+export const playThrough = async (
+  element: HTMLVideoElement,
+  { start = 0, end = element.duration, playbackRate = 1, signal, onFrame }: PlayThroughOptions
+): Promise<void> => {
+  signal?.throwIfAborted();
+  await seekTo(element, start);
+  element.playbackRate = playbackRate;
+
+  await new Promise<void>((resolve, reject) => {
+    let finished = false;
+    const finish = (error?: unknown) => {
+      if (finished) return;
+      finished = true;
+      element.pause();
+      element.removeEventListener('ended', onEnded);
+      signal?.removeEventListener('abort', onAbort);
+      if (error) reject(error);
+      else resolve();
+    };
+    const onEnded = () => {
+      onFrame(element.currentTime);
+      finish();
+    };
+    const onAbort = () => finish(signal!.reason);
+
+    const scheduleFrame = () => {
+      if (typeof element.requestVideoFrameCallback === 'function') {
+        element.requestVideoFrameCallback(tick);
+      } else {
+        requestAnimationFrame(tick);
+      }
+    };
+    const tick = () => {
+      if (finished) return;
+      const time = element.currentTime;
+      onFrame(time);
+      if (time >= end) {
+        finish();
+        return;
+      }
+      scheduleFrame();
+    };
+
+    element.addEventListener('ended', onEnded);
+    signal?.addEventListener('abort', onAbort, { once: true });
+    onFrame(start);
+    element.play().then(scheduleFrame, finish);
+  });
+};
+
+export interface ReencodeOptions {
+  start?: number;
+  end?: number;
+  playbackRate?: number;
+  // Output size; the clip is letterboxed if its shape differs. Defaults to the clip's own size.
+  width?: number;
+  height?: number;
+  recorder?: CanvasRecorderOptions;
+  signal?: AbortSignal;
+  onProgress?: (fraction: number) => void;
+  // Draws on top of each frame; `time` is in seconds of the source clip and
+  // `duration` is where the output stops in it, after trimming.
+  decorate?: (ctx: CanvasRenderingContext2D, time: number, duration: number) => void;
+}
+
+// Re-records `video`, or the part between `start` and `end`. Rendering runs
+// in real time, so it takes as long as the output clip.
+export const reencodeVideo = async (
+  video: Blob,
+  { start = 0, end, playbackRate = 1, width, height, recorder: recorderOptions, signal, onProgress, decorate }: ReencodeOptions = {}
+): Promise<Blob> => {
+  const source = await loadVideoElement(video);
+  try {
+    const canvas = document.createElement('canvas');
+    canvas.width = width ?? source.videoWidth;
+    canvas.height = height ?? source.videoHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('Could not create a canvas to render the video.');
+    }
+    const stop = Math.min(end ?? source.duration, source.duration);
+
+    const recorder = createCanvasRecorder(canvas, recorderOptions);
+    recorder.connectAudio(source);
+    recorder.start();
+    try {
+      await playThrough(source, {
+        start,
+        end: stop,
+        playbackRate,
+        signal,
+        onFrame: (time) => {
+          ctx.fillStyle = 'black';
+          ctx.fillRect(0, 0, canvas.width, canvas.height);
+          drawContained(ctx, source);
+          decorate?.(ctx, time, stop);
+          onProgress?.(Math.min(1, Math.max(0, (time - start) / (stop - start))));
+        },
+      });
+    } catch (e) {
+      await recorder.stop();
+      throw e;
+    }
+    return recorder.stop();
+  } finally {
+    releaseVideoElement(source);
+  }
+};
+
+export interface SampleFramesOptions {
+  start?: number;
+  end?: number;
+  playbackRate?: number;
+  width: number;
+  height: number;
+  fps: number;
+  signal?: AbortSignal;
+  onProgress?: (fraction: number) => void;
+}
+
+// Steps through `video` by seeking rather than playing, handing `onFrame` a
+// canvas with each frame at `fps` of output time. Slower than real time for
+// large frames, but never drops any.
+export const sampleFrames = async (
+  video: Blob,
+  { start = 0, end, playbackRate = 1, width, height, fps, signal, onProgress }: SampleFramesOptions,
+  onFrame: (canvas: HTMLCanvasElement) => void | Promise<void>
+): Promise<void> => {
+  const source = await loadVideoElement(video);
+  try {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) {
+      throw new Error('Could not create a canvas to capture the frames.');
+    }
+    const stop = Math.min(end ?? source.duration, source.duration);
+    const frameCount = Math.max(1, Math.round(((stop - start) / playbackRate) * fps));
+    for (let index = 0; index < frameCount; index++) {
+      signal?.throwIfAborted();
+      await seekTo(source, start + (index / fps) * playbackRate);
+      ctx.fillStyle = 'black';
+      ctx.fillRect(0, 0, width, height);
+      drawContained(ctx, source);
+      await onFrame(canvas);
+      onProgress?.((index + 1) / frameCount);
+    }
+  } finally {
+    releaseVideoElement(source);
+  }
+};
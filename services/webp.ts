@@ -0,0 +1,85 @@
+// Assembles an animated WebP from still WebP frames, such as the ones
+// `canvas.toBlob('image/webp')` produces. Browsers can encode single WebP
+// images but not animations, so each frame's bitstream is lifted out of its
+// file and wrapped in an ANMF chunk.
+
+const fourCC = (bytes: Uint8Array, offset: number) => String.fromCharCode(...bytes.subarray(offset, offset + 4));
+
+const chunk = (type: string, payload: Uint8Array): Uint8Array => {
+  const padded = payload.length + (payload.length % 2);
+  const bytes = new Uint8Array(8 + padded);
+  bytes.set([...type].map(char => char.charCodeAt(0)), 0);
+  new DataView(bytes.buffer).setUint32(4, payload.length, true);
+  bytes.set(payload, 8);
+  return bytes;
+};
+
+const uint24 = (bytes: Uint8Array, offset: number, value: number) => {
+  bytes[offset] = value & 0xff;
+  bytes[offset + 1] = (value >> 8) & 0xff;
+  bytes[offset + 2] = (value >> 16) & 0xff;
+};
+
+// The ALPH and VP8/VP8L chunks of a still WebP file, as stored.
+const readFrameChunks = (file: Uint8Array): { data: Uint8Array; hasAlpha: boolean } => {
+  if (fourCC(file, 0) !== 'RIFF' || fourCC(file, 8) !== 'WEBP') {
+    throw new Error('This browser cannot encode WebP images.');
+  }
+  const view = new DataView(file.buffer, file.byteOffset, file.byteLength);
+  const kept: Uint8Array[] = [];
+  let hasAlpha = false;
+  for (let offset = 12; offset + 8 <= file.length;) {
+    const type = fourCC(file, offset);
+    const size = view.getUint32(offset + 4, true);
+    const end = offset + 8 + size + (size % 2);
+    if (type === 'ALPH' || type === 'VP8 ' || type === 'VP8L') {
+      kept.push(file.subarray(offset, end));
+      hasAlpha ||= type !== 'VP8 ';
+    }
+    offset = end;
+  }
+  if (kept.length === 0) {
+    throw new Error('A WebP frame had no image data.');
+  }
+  const data = new Uint8Array(kept.reduce((sum, part) => sum + part.length, 0));
+  kept.reduce((offset, part) => {
+    data.set(part, offset);
+    return offset + part.length;
+  }, 0);
+  return { data, hasAlpha };
+};
+
+// `frames` are still WebP files of `width` × `height`. `loop` 0 repeats forever.
+export const createAnimatedWebp = async (frames: Blob[], width: number, height: number, frameDurationMs: number, loop = 0): Promise<Blob> => {
+  const parts: Uint8Array[] = [];
+  let hasAlpha = false;
+  for (const [index, frame] of frames.entries()) {
+    const { data, hasAlpha: frameHasAlpha } = readFrameChunks(new Uint8Array(await frame.arrayBuffer()));
+    hasAlpha ||= frameHasAlpha;
+    const header = new Uint8Array(16);
+    uint24(header, 6, width - 1);
+    uint24(header, 9, height - 1);
+    // Spread rounding across frames so the total length stays right.
+    uint24(header, 12, Math.round((index + 1) * frameDurationMs) - Math.round(index * frameDurationMs));
+    header[15] = 0x02; // replace rather than blend with the previous frame
+    const payload = new Uint8Array(header.length + data.length);
+    payload.set(header);
+    payload.set(data, header.length);
+    parts.push(chunk('ANMF', payload));
+  }
+
+  const vp8x = new Uint8Array(10);
+  vp8x[0] = 0x02 | (hasAlpha ? 0x10 : 0);
+  uint24(vp8x, 4, width - 1);
+  uint24(vp8x, 7, height - 1);
+  const anim = new Uint8Array(6);
+  new DataView(anim.buffer).setUint16(4, loop, true);
+  parts.unshift(chunk('VP8X', vp8x), chunk('ANIM', anim));
+
+  const size = 4 + parts.reduce((sum, part) => sum + part.length, 0);
+  const riff = new Uint8Array(12);
+  riff.set([...'RIFF'].map(char => char.charCodeAt(0)), 0);
+  new DataView(riff.buffer).setUint32(4, size, true);
+  riff.set([...'WEBP'].map(char => char.charCodeAt(0)), 8);
+  return new Blob([riff, ...parts], { type: 'image/webp' });
+};
@@ -6,3 +6,318 @@ export interface ImageFile {
 }
 
 export type AspectRatio = '16:9' | '9:16';
+
+// A region of a source image, in source pixels.
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type VideoResolution = '720p' | '1080p';
+
+// User-facing generation settings. Which of them a model honours is described
+// by its `VideoModelCapabilities`.
+export interface GenerationOptions {
+  model: string;
+  resolution: VideoResolution;
+  negativePrompt: string;
+  // `null` lets the service pick a random seed.
+  seed: number | null;
+  numberOfVideos: number;
+  // `null` uses the model's default length.
+  durationSeconds: number | null;
+  generateAudio: boolean;
+}
+
+export interface VideoGenerationRequest {
+  prompt: string;
+  imageDataUrl: string;
+  aspectRatio: AspectRatio;
+  options: GenerationOptions;
+}
+
+// Asks a text/vision model for prompts grounded in the uploaded image.
+export interface PromptSuggestionRequest {
+  imageDataUrl: string;
+  aspectRatio: AspectRatio;
+  count: number;
+  signal?: AbortSignal;
+}
+
+// Rewrites a rough prompt into a detailed shot description.
+export interface PromptEnhancementRequest {
+  prompt: string;
+  imageDataUrl?: string;
+  aspectRatio: AspectRatio;
+  signal?: AbortSignal;
+}
+
+export interface GeneratedVideoRef {
+  uri: string;
+  mimeType?: string;
+}
+
+// Provider-neutral view of a long-running generation. `name` is all that is
+// needed to poll it again.
+export interface VideoOperation {
+  name: string;
+  done: boolean;
+  videos?: GeneratedVideoRef[];
+  error?: string;
+  // Reasons given when the safety filters withheld some or all of the videos.
+  filteredReasons?: string[];
+}
+
+export type GenerationErrorKind =
+  | 'invalid-key'
+  | 'quota'
+  | 'safety'
+  | 'operation-failed'
+  | 'download-failed'
+  | 'network'
+  | 'invalid-request'
+  | 'unknown';
+
+export interface VideoModelCapabilities {
+  id: string;
+  label: string;
+  tier: 'fast' | 'quality';
+  resolutions: VideoResolution[];
+  durations: number[];
+  // Some models only render 1080p at particular lengths.
+  fullHdDurations?: number[];
+  maxVideos: number;
+  supportsNegativePrompt: boolean;
+  supportsSeed: boolean;
+  supportsAudio: boolean;
+}
+
+// Where the Gemini API key comes from. With 'proxy' the key stays on the
+// proxy server and never reaches the browser.
+export type CredentialSource = 'aistudio' | 'stored' | 'proxy' | 'environment';
+
+export interface Credentials {
+  apiKey?: string;
+  // Sends API requests to this endpoint instead of Google's.
+  baseUrl?: string;
+}
+
+export interface VideoProviderCapabilities {
+  requiresApiKey: boolean;
+  aspectRatios: AspectRatio[];
+  pollIntervalMs: number;
+  models: VideoModelCapabilities[];
+}
+
+export interface VideoProvider {
+  id: string;
+  label: string;
+  // Default model id; see `capabilities.models` for the alternatives.
+  model: string;
+  capabilities: VideoProviderCapabilities;
+  submit: (request: VideoGenerationRequest) => Promise<VideoOperation>;
+  poll: (operation: VideoOperation, signal?: AbortSignal) => Promise<VideoOperation>;
+  download: (video: GeneratedVideoRef, signal?: AbortSignal) => Promise<Blob>;
+  // Rejects when `credentials` can't be used, for providers that need any.
+  verifyCredentials?: (credentials: Credentials) => Promise<void>;
+  // Prompt help, for providers with a text model alongside the video one.
+  suggestPrompts?: (request: PromptSuggestionRequest) => Promise<string[]>;
+  enhancePrompt?: (request: PromptEnhancementRequest) => Promise<string>;
+}
+
+// An in-flight generation, persisted so polling can resume after a reload.
+export interface GenerationJob {
+  id: string;
+  providerId: string;
+  model: string;
+  operationName: string;
+  prompt: string;
+  image: ImageFile;
+  aspectRatio: AspectRatio;
+  options: GenerationOptions;
+  createdAt: number;
+}
+
+// A finished generation kept in the local history gallery.
+export interface HistoryEntry {
+  id: string;
+  video: Blob;
+  image: ImageFile;
+  prompt: string;
+  aspectRatio: AspectRatio;
+  providerId: string;
+  model: string;
+  // The provider operation that produced the video. Missing on entries saved
+  // before it was recorded.
+  operationName?: string;
+  options: GenerationOptions;
+  submittedAt: number;
+  completedAt: number;
+}
+
+export type UsageStatus = 'pending' | 'succeeded' | 'failed' | 'cancelled';
+
+// One submitted operation in the usage ledger. The cost is estimated from the
+// price table in force when the operation was submitted.
+export interface UsageRecord {
+  // The id of the generation job that submitted the operation.
+  id: string;
+  providerId: string;
+  model: string;
+  resolution: VideoResolution;
+  durationSeconds: number;
+  numberOfVideos: number;
+  generateAudio: boolean;
+  estimatedCost: number;
+  status: UsageStatus;
+  errorKind?: GenerationErrorKind;
+  submittedAt: number;
+  finishedAt?: number;
+}
+
+// US dollars per second of generated video.
+export interface ModelPrice {
+  perSecond: number;
+  // Used instead of `perSecond` when audio is generated too.
+  perSecondWithAudio?: number;
+}
+
+// Keyed by model id.
+export type PriceTable = Record<string, ModelPrice>;
+
+export type BudgetPeriod = 'session' | 'day' | 'month';
+
+export interface UsageBudget {
+  // `null` turns the budget off.
+  limit: number | null;
+  period: BudgetPeriod;
+  // Whether a generation over budget is refused outright or needs confirming.
+  action: 'block' | 'confirm';
+}
+
+export type BatchItemStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+// One image × prompt × aspect ratio combination in a batch run.
+export interface BatchItem {
+  id: string;
+  image: ImageFile;
+  prompt: string;
+  aspectRatio: AspectRatio;
+  status: BatchItemStatus;
+  progress: string;
+  attempts: number;
+  options: GenerationOptions;
+  model?: string;
+  error?: string;
+  errorKind?: GenerationErrorKind;
+  video?: Blob;
+}
+
+export type OverlayPosition = 'top' | 'center' | 'lower-third' | 'bottom';
+
+export type LogoCorner = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+
+export interface TextOverlay {
+  text: string;
+  fontFamily: string;
+  // Relative to the frame height so overlays scale with the output resolution.
+  fontSizePercent: number;
+  color: string;
+  position: OverlayPosition;
+}
+
+export interface LogoOverlay {
+  image: ImageFile;
+  corner: LogoCorner;
+  // Relative to the frame width.
+  sizePercent: number;
+  startSeconds: number;
+  // `null` keeps the logo on screen until the clip ends.
+  endSeconds: number | null;
+  fadeSeconds: number;
+}
+
+export interface OverlaySettings {
+  title: TextOverlay;
+  subtitle: TextOverlay;
+  logo: LogoOverlay | null;
+}
+
+// In and out points (in seconds of the source clip) and speed for re-encoding
+// a result. The preview loops between the two points.
+export interface ClipEdit {
+  start: number;
+  // `null` runs to the end of the clip.
+  end: number | null;
+  playbackRate: number;
+}
+
+export type ExportFormat = 'mp4' | 'webm' | 'gif' | 'webp';
+
+export interface FrameSize {
+  width: number;
+  height: number;
+}
+
+// A transcoding target for a finished video.
+export interface ExportPreset {
+  id: string;
+  label: string;
+  description: string;
+  format: ExportFormat;
+  // Output size per aspect ratio. Without `sizes` the clip keeps its own size;
+  // with them, clips in any other aspect ratio can't use the preset.
+  sizes?: Partial<Record<AspectRatio, FrameSize>>;
+  // Frame rate of animated images.
+  fps?: number;
+  videoBitsPerSecond?: number;
+  // Platform upload limits.
+  maxBytes?: number;
+  maxSeconds?: number;
+}
+
+// Insets as fractions of the frame that keep titles clear of cropping and
+// platform UI.
+export interface SafeArea {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+}
+
+export type ShotStatus = 'pending' | 'running' | 'succeeded' | 'failed';
+
+export interface StoryboardShot {
+  id: string;
+  prompt: string;
+  image: ImageFile | null;
+  // Start from the last frame of the previous shot instead of `image`.
+  seedFromPrevious: boolean;
+  status: ShotStatus;
+  progress: string;
+  error?: string;
+  errorKind?: GenerationErrorKind;
+  video?: Blob;
+}
+
+export type StyleModifierCategory = 'camera' | 'lighting' | 'pacing';
+
+export interface StyleModifier {
+  id: string;
+  category: StyleModifierCategory;
+  label: string;
+  text: string;
+}
+
+// A prompt template with `{{variable}}` placeholders, the values filled in
+// for it and the style modifiers applied on top.
+export interface PromptPreset {
+  id: string;
+  name: string;
+  template: string;
+  variables: Record<string, string>;
+  modifierIds: string[];
+  builtIn?: boolean;
+}
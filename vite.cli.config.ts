@@ -0,0 +1,17 @@
+import { defineConfig } from 'vite';
+
+// Builds the Node CLI. Unlike the app build, environment variables are read at
+// run time rather than baked in.
+export default defineConfig({
+  build: {
+    ssr: 'cli/index.ts',
+    outDir: 'dist-cli',
+    target: 'node20',
+    rollupOptions: {
+      output: {
+        entryFileNames: 'robo-intro.js',
+        banner: '#!/usr/bin/env node',
+      },
+    },
+  },
+});
@@ -12,7 +12,10 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.VIDEO_PROVIDER': JSON.stringify(env.VIDEO_PROVIDER ?? ''),
+        'process.env.MOCK_VIDEO_URL': JSON.stringify(env.MOCK_VIDEO_URL ?? ''),
+        'process.env.API_PROXY_URL': JSON.stringify(env.API_PROXY_URL ?? '')
       },
       resolve: {
         alias: {